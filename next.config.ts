@@ -2,6 +2,10 @@ import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // Read at runtime by the notification rules loader
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./config/**/*'],
+  },
   experimental: {
     serverComponentsExternalPackages: ['pino', 'pino-pretty'],
   },
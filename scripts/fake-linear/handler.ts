@@ -0,0 +1,51 @@
+import { createLogger } from '../../src/lib/logger';
+import { FakeHandler, json, parseJson } from '../shared/http';
+import { FakeLinearData } from './seed';
+import { FakeLinearError, operationName, resolveOperation } from './resolvers';
+
+export function createFakeLinear(data: FakeLinearData): FakeHandler {
+  const log = createLogger('fake-linear');
+
+  return (request) => {
+    if (request.method !== 'POST' || request.path !== '/graphql') {
+      return json(404, { error: 'POST /graphql only' });
+    }
+
+    if (!request.headers.authorization) {
+      return json(401, {
+        errors: [
+          {
+            message: 'Authentication required, not authenticated',
+            extensions: { code: 'AUTHENTICATION_ERROR' },
+          },
+        ],
+      });
+    }
+
+    const parsed = parseJson<{
+      query: string;
+      variables?: Record<string, unknown>;
+    }>(request);
+    if ('error' in parsed) {
+      return parsed.error;
+    }
+
+    const { query, variables } = parsed.value;
+    const operation = operationName(query);
+    try {
+      const result = resolveOperation(data, query, variables);
+      log.info({ operation, variables }, 'Served fake Linear operation');
+      return json(200, { data: result });
+    } catch (error) {
+      const code =
+        error instanceof FakeLinearError ? error.code : 'INTERNAL_SERVER_ERROR';
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn({ operation, variables, code, message }, 'Fake Linear error');
+      // Linear answers GraphQL errors with HTTP 200 and an errors array
+      return json(200, {
+        data: null,
+        errors: [{ message, extensions: { code } }],
+      });
+    }
+  };
+}
@@ -0,0 +1,389 @@
+import { LinearComment } from '../../src/lib/types/linear-webhook';
+import { FakeComment, FakeIssue, FakeLinearData } from './seed';
+
+type Variables = Record<string, unknown>;
+
+export class FakeLinearError extends Error {
+  constructor(
+    message: string,
+    readonly code = 'INVALID_INPUT'
+  ) {
+    super(message);
+  }
+}
+
+// Connection page using the item index as cursor, like Linear's opaque ones
+function paginate<T>(items: T[], first?: unknown, after?: unknown) {
+  const start = typeof after === 'string' && after ? Number(after) + 1 : 0;
+  const size = typeof first === 'number' ? first : 50;
+  const nodes = items.slice(start, start + size);
+  const lastIndex = start + nodes.length - 1;
+
+  return {
+    nodes,
+    pageInfo: {
+      hasNextPage: lastIndex < items.length - 1,
+      endCursor: nodes.length > 0 ? String(lastIndex) : null,
+    },
+  };
+}
+
+function findIssue(data: FakeLinearData, issueId: unknown): FakeIssue {
+  const issue = data.issues.find(
+    (i) => i.id === issueId || i.identifier === issueId
+  );
+  if (!issue) {
+    throw new FakeLinearError(`Entity not found: Issue ${String(issueId)}`);
+  }
+  return issue;
+}
+
+function findState(data: FakeLinearData, stateId: string) {
+  const state = data.states.find((s) => s.id === stateId);
+  if (!state) {
+    throw new FakeLinearError(`Entity not found: WorkflowState ${stateId}`);
+  }
+  return state;
+}
+
+function renderLabel(data: FakeLinearData, labelId: string) {
+  const label = data.labels.find((l) => l.id === labelId);
+  return label
+    ? {
+        id: label.id,
+        name: label.name,
+        color: label.color,
+        parent: label.parentId ? { id: label.parentId } : null,
+      }
+    : null;
+}
+
+function renderIssue(data: FakeLinearData, issue: FakeIssue) {
+  return {
+    id: issue.id,
+    identifier: issue.identifier,
+    title: issue.title,
+    description: issue.description ?? null,
+    url: `https://linear.app/fake/issue/${issue.identifier}`,
+    estimate: issue.estimate ?? null,
+    priority: issue.priority,
+    state: findState(data, issue.stateId),
+    assignee: data.users.find((u) => u.id === issue.assigneeId) ?? null,
+    labels: {
+      nodes: issue.labelIds
+        .map((labelId) => renderLabel(data, labelId))
+        .filter((label) => label !== null),
+    },
+    team: data.teams.find((t) => t.id === issue.teamId) ?? null,
+    createdAt: issue.createdAt,
+    updatedAt: issue.updatedAt,
+  };
+}
+
+function renderComment(comment: FakeComment): LinearComment {
+  return {
+    id: comment.id,
+    body: comment.body,
+    user: comment.user,
+    createdAt: comment.createdAt,
+  };
+}
+
+function commentsOf(data: FakeLinearData, issueId: string) {
+  return data.comments
+    .filter((comment) => comment.issueId === issueId)
+    .map(renderComment);
+}
+
+function historyOf(data: FakeLinearData, issueId: string) {
+  return data.history
+    .filter((entry) => entry.issueId === issueId)
+    .map((entry) => ({
+      createdAt: entry.createdAt,
+      fromState: findState(data, entry.fromStateId),
+      toState: findState(data, entry.toStateId),
+    }));
+}
+
+function issueConnection(
+  data: FakeLinearData,
+  issues: FakeIssue[],
+  variables: Variables,
+  withCommentsAndHistory = false
+) {
+  const page = paginate(issues, variables.first, variables.after);
+  return {
+    issues: {
+      ...page,
+      nodes: page.nodes.map((issue) => ({
+        ...renderIssue(data, issue),
+        ...(withCommentsAndHistory
+          ? {
+              comments: paginate(commentsOf(data, issue.id), 50),
+              history: paginate(historyOf(data, issue.id), 50),
+            }
+          : {}),
+      })),
+    },
+  };
+}
+
+function touch(issue: FakeIssue) {
+  issue.updatedAt = new Date().toISOString();
+}
+
+function byIds<T extends { id: string }>(items: T[], ids: unknown) {
+  const wanted = new Set(Array.isArray(ids) ? ids : []);
+  return { nodes: items.filter((item) => wanted.has(item.id)) };
+}
+
+// One resolver per GraphQL operation name used by LinearAPI
+const resolvers: Record<
+  string,
+  (data: FakeLinearData, variables: Variables) => unknown
+> = {
+  GetWorkflowState: (data, { id }) => ({
+    workflowState: data.states.find((s) => s.id === id) ?? null,
+  }),
+
+  GetEntitiesByIds: (data, variables) => ({
+    ...('userIds' in variables && {
+      users: byIds(data.users, variables.userIds),
+    }),
+    ...('cycleIds' in variables && {
+      cycles: byIds(data.cycles, variables.cycleIds),
+    }),
+    ...('projectIds' in variables && {
+      projects: byIds(data.projects, variables.projectIds),
+    }),
+    ...('labelIds' in variables && {
+      issueLabels: {
+        nodes: byIds(data.labels, variables.labelIds).nodes.map((label) =>
+          renderLabel(data, label.id)
+        ),
+      },
+    }),
+    ...('teamIds' in variables && {
+      teams: byIds(data.teams, variables.teamIds),
+    }),
+    ...('issueIds' in variables && {
+      issues: {
+        nodes: byIds(data.issues, variables.issueIds).nodes.map((issue) => ({
+          id: issue.id,
+          identifier: issue.identifier,
+          title: issue.title,
+        })),
+      },
+    }),
+  }),
+
+  GetIssueRelations: (data, { issueId }) => {
+    const issue = findIssue(data, issueId);
+    const reference = (id: string) => {
+      const related = findIssue(data, id);
+      return {
+        id: related.id,
+        identifier: related.identifier,
+        title: related.title,
+      };
+    };
+
+    return {
+      issue: {
+        relations: {
+          nodes: data.relations
+            .filter((r) => r.issueId === issue.id)
+            .map((r) => ({
+              type: r.type,
+              relatedIssue: reference(r.relatedIssueId),
+            })),
+        },
+        inverseRelations: {
+          nodes: data.relations
+            .filter((r) => r.relatedIssueId === issue.id)
+            .map((r) => ({ type: r.type, issue: reference(r.issueId) })),
+        },
+      },
+    };
+  },
+
+  GetIssuesByLabel: (data, variables) =>
+    issueConnection(
+      data,
+      data.issues.filter((i) => i.labelIds.includes(String(variables.labelId))),
+      variables
+    ),
+
+  GetIssuesByLabelParent: (data, variables) =>
+    issueConnection(
+      data,
+      data.issues
+        .filter((i) =>
+          i.labelIds.some(
+            (labelId) =>
+              data.labels.find((l) => l.id === labelId)?.parentId ===
+              variables.parentLabelId
+          )
+        )
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+      variables
+    ),
+
+  GetIssuesByCycle: (data, variables) =>
+    issueConnection(
+      data,
+      data.issues.filter((i) => i.cycleId === variables.cycleId),
+      variables
+    ),
+
+  GetIssuesByCycleWithComments: (data, variables) =>
+    issueConnection(
+      data,
+      data.issues.filter((i) => i.cycleId === variables.cycleId),
+      variables,
+      true
+    ),
+
+  GetIssueComments: (data, variables) => ({
+    issue: {
+      comments: paginate(
+        commentsOf(data, findIssue(data, variables.issueId).id),
+        variables.first,
+        variables.after
+      ),
+    },
+  }),
+
+  GetIssueHistory: (data, variables) => {
+    const issue = findIssue(data, variables.issueId);
+    return {
+      issue: {
+        history: paginate(
+          historyOf(data, issue.id),
+          variables.first,
+          variables.after
+        ),
+      },
+    };
+  },
+
+  GetCycleDetails: (data, { cycleId }) => {
+    const cycle = data.cycles.find((c) => c.id === cycleId);
+    return {
+      cycle: cycle
+        ? {
+            id: cycle.id,
+            name: cycle.name,
+            completedAt: cycle.completedAt ?? null,
+            startsAt: cycle.startsAt,
+            endsAt: cycle.endsAt,
+          }
+        : null,
+    };
+  },
+
+  CreateComment: (data, { input }) => {
+    const { issueId, body } = input as { issueId: string; body: string };
+    const issue = findIssue(data, issueId);
+    const comment: FakeComment = {
+      id: `comment-${data.comments.length + 1}`,
+      issueId: issue.id,
+      body,
+      user: { name: 'Linear Connector' },
+      createdAt: new Date().toISOString(),
+    };
+    data.comments.push(comment);
+
+    return {
+      commentCreate: { success: true, comment: renderComment(comment) },
+    };
+  },
+
+  AddIssueLabel: (data, { id, labelId }) => {
+    const issue = findIssue(data, id);
+    if (!issue.labelIds.includes(String(labelId))) {
+      issue.labelIds.push(String(labelId));
+      touch(issue);
+    }
+    return {
+      issueAddLabel: { success: true, issue: renderIssue(data, issue) },
+    };
+  },
+
+  RemoveIssueLabel: (data, { id, labelId }) => {
+    const issue = findIssue(data, id);
+    issue.labelIds = issue.labelIds.filter((l) => l !== labelId);
+    touch(issue);
+    return {
+      issueRemoveLabel: { success: true, issue: renderIssue(data, issue) },
+    };
+  },
+
+  UpdateIssue: (data, { id, input }) => {
+    const issue = findIssue(data, id);
+    const changes = input as Partial<FakeIssue>;
+
+    if (changes.stateId && changes.stateId !== issue.stateId) {
+      findState(data, changes.stateId);
+      data.history.push({
+        issueId: issue.id,
+        createdAt: new Date().toISOString(),
+        fromStateId: issue.stateId,
+        toStateId: changes.stateId,
+      });
+    }
+
+    Object.assign(issue, changes);
+    // Linear unassigns with assigneeId: null
+    issue.assigneeId = issue.assigneeId ?? undefined;
+    touch(issue);
+    return { issueUpdate: { success: true, issue: renderIssue(data, issue) } };
+  },
+
+  CreateIssue: (data, { input }) => {
+    const fields = input as Partial<FakeIssue> & {
+      teamId: string;
+      title: string;
+    };
+    const team = data.teams.find((t) => t.id === fields.teamId);
+    if (!team) {
+      throw new FakeLinearError(`Entity not found: Team ${fields.teamId}`);
+    }
+
+    const number = data.issues.filter((i) => i.teamId === team.id).length + 1;
+    const now = new Date().toISOString();
+    const issue: FakeIssue = {
+      priority: 0,
+      stateId: data.states.find((s) => s.type === 'unstarted')!.id,
+      labelIds: [],
+      ...fields,
+      id: `issue-${data.issues.length + 1}`,
+      identifier: `${team.key}-${number}`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    data.issues.push(issue);
+
+    return { issueCreate: { success: true, issue: renderIssue(data, issue) } };
+  },
+};
+
+export function operationName(query: string): string | undefined {
+  return query.match(/^\s*(?:query|mutation)\s+(\w+)/)?.[1];
+}
+
+export function resolveOperation(
+  data: FakeLinearData,
+  query: string,
+  variables: Variables = {}
+) {
+  const name = operationName(query);
+  const resolver = name ? resolvers[name] : undefined;
+  if (!resolver) {
+    throw new FakeLinearError(
+      `Fake Linear server does not support operation ${name ?? '(anonymous)'}`,
+      'GRAPHQL_VALIDATION_FAILED'
+    );
+  }
+  return resolver(data, variables);
+}
@@ -0,0 +1,246 @@
+import {
+  LinearComment,
+  LinearCycle,
+  LinearIssueState,
+  LinearLabel,
+  LinearProject,
+  LinearTeam,
+  LinearUser,
+} from '../../src/lib/types/linear-webhook';
+import { STORY_LABEL_PARENT_ID } from '../../src/lib/webhook-processors/issue/utils/story-label';
+
+// Issues are stored by foreign key and expanded into GraphQL shapes by the
+// resolvers, so mutations only have to update IDs
+export interface FakeIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string;
+  estimate?: number;
+  priority: number;
+  stateId: string;
+  teamId: string;
+  assigneeId?: string;
+  cycleId?: string;
+  projectId?: string;
+  parentId?: string;
+  dueDate?: string;
+  labelIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FakeComment extends LinearComment {
+  issueId: string;
+}
+
+export interface FakeHistoryEntry {
+  issueId: string;
+  createdAt: string;
+  fromStateId: string;
+  toStateId: string;
+}
+
+export interface FakeRelation {
+  type: 'blocks';
+  issueId: string;
+  relatedIssueId: string;
+}
+
+export interface FakeCycle extends LinearCycle {
+  teamId: string;
+  startsAt: string;
+  endsAt: string;
+  completedAt?: string;
+}
+
+export interface FakeLinearData {
+  states: Required<LinearIssueState>[];
+  teams: LinearTeam[];
+  users: LinearUser[];
+  labels: LinearLabel[];
+  cycles: FakeCycle[];
+  projects: LinearProject[];
+  issues: FakeIssue[];
+  comments: FakeComment[];
+  history: FakeHistoryEntry[];
+  relations: FakeRelation[];
+}
+
+// Matches the IDs and names the flows look for (story label parent, the
+// Engineering - PRODUCT team, the QA Testing / Done states, 🔴 FLAGGED)
+export function createSeedData(): FakeLinearData {
+  return {
+    states: [
+      {
+        id: 'state-backlog',
+        name: 'Backlog',
+        type: 'backlog',
+        color: '#bec2c8',
+        position: 0,
+      },
+      {
+        id: 'state-todo',
+        name: 'Todo',
+        type: 'unstarted',
+        color: '#e2e2e2',
+        position: 1,
+      },
+      {
+        id: 'state-in-progress',
+        name: 'In Progress',
+        type: 'started',
+        color: '#f2c94c',
+        position: 2,
+      },
+      {
+        id: 'state-qa',
+        name: 'QA Testing',
+        type: 'started',
+        color: '#5e6ad2',
+        position: 3,
+      },
+      {
+        id: 'state-done',
+        name: 'Done',
+        type: 'completed',
+        color: '#5e6ad2',
+        position: 4,
+      },
+      {
+        id: 'state-canceled',
+        name: 'Canceled',
+        type: 'canceled',
+        color: '#95a2b3',
+        position: 5,
+      },
+    ],
+    teams: [
+      { id: 'team-product', name: 'Engineering - PRODUCT', key: 'PRD' },
+      { id: 'team-platform', name: 'Engineering - PLATFORM', key: 'PLT' },
+    ],
+    users: [
+      {
+        id: 'user-ada',
+        name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        avatarUrl: 'https://avatars.example.com/ada.png',
+      },
+      { id: 'user-alan', name: 'Alan Turing', email: 'alan@example.com' },
+    ],
+    labels: [
+      { id: 'label-story-parent', name: 'Story', color: '#4ea7fc' },
+      {
+        id: 'label-story-checkout',
+        name: 'Story: Checkout',
+        color: '#4ea7fc',
+        parentId: STORY_LABEL_PARENT_ID,
+      },
+      { id: 'label-flagged', name: '🔴 FLAGGED', color: '#eb5757' },
+      { id: 'label-bug', name: 'Bug', color: '#eb5757' },
+    ],
+    cycles: [
+      {
+        id: 'cycle-12',
+        number: 12,
+        name: 'Cycle 12',
+        teamId: 'team-product',
+        startsAt: '2025-01-06T00:00:00.000Z',
+        endsAt: '2025-01-20T00:00:00.000Z',
+      },
+    ],
+    projects: [{ id: 'project-checkout', name: 'Checkout revamp' }],
+    issues: [
+      {
+        id: 'issue-1',
+        identifier: 'PRD-1',
+        title: 'Add payment step',
+        description: 'Let customers pay by card.',
+        estimate: 3,
+        priority: 2,
+        stateId: 'state-qa',
+        teamId: 'team-product',
+        assigneeId: 'user-ada',
+        cycleId: 'cycle-12',
+        projectId: 'project-checkout',
+        labelIds: ['label-story-checkout'],
+        createdAt: '2025-01-06T09:00:00.000Z',
+        updatedAt: '2025-01-10T09:00:00.000Z',
+      },
+      {
+        id: 'issue-2',
+        identifier: 'PRD-2',
+        title: 'Show order summary',
+        estimate: 2,
+        priority: 3,
+        stateId: 'state-done',
+        teamId: 'team-product',
+        assigneeId: 'user-alan',
+        cycleId: 'cycle-12',
+        labelIds: ['label-story-checkout'],
+        createdAt: '2025-01-06T09:30:00.000Z',
+        updatedAt: '2025-01-12T15:00:00.000Z',
+      },
+      {
+        id: 'issue-3',
+        identifier: 'PRD-3',
+        title: 'Fix rounding of totals',
+        estimate: 1,
+        priority: 1,
+        stateId: 'state-in-progress',
+        teamId: 'team-product',
+        assigneeId: 'user-ada',
+        cycleId: 'cycle-12',
+        parentId: 'issue-1',
+        labelIds: ['label-bug', 'label-flagged'],
+        createdAt: '2025-01-07T10:00:00.000Z',
+        updatedAt: '2025-01-13T11:00:00.000Z',
+      },
+    ],
+    comments: [
+      {
+        id: 'comment-1',
+        issueId: 'issue-1',
+        body: 'Ready for QA.',
+        user: { name: 'Ada Lovelace' },
+        createdAt: '2025-01-09T16:00:00.000Z',
+      },
+      {
+        id: 'comment-2',
+        issueId: 'issue-3',
+        body: 'Totals are off by one cent on some carts.',
+        user: { name: 'Alan Turing' },
+        createdAt: '2025-01-08T12:00:00.000Z',
+      },
+    ],
+    history: [
+      {
+        issueId: 'issue-2',
+        createdAt: '2025-01-08T10:00:00.000Z',
+        fromStateId: 'state-todo',
+        toStateId: 'state-in-progress',
+      },
+      {
+        issueId: 'issue-2',
+        createdAt: '2025-01-10T10:00:00.000Z',
+        fromStateId: 'state-in-progress',
+        toStateId: 'state-done',
+      },
+      {
+        issueId: 'issue-2',
+        createdAt: '2025-01-11T10:00:00.000Z',
+        fromStateId: 'state-done',
+        toStateId: 'state-in-progress',
+      },
+      {
+        issueId: 'issue-2',
+        createdAt: '2025-01-12T15:00:00.000Z',
+        fromStateId: 'state-in-progress',
+        toStateId: 'state-done',
+      },
+    ],
+    relations: [
+      { type: 'blocks', issueId: 'issue-3', relatedIssueId: 'issue-1' },
+    ],
+  };
+}
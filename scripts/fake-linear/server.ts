@@ -0,0 +1,15 @@
+// Offline stand-in for https://api.linear.app/graphql. Serves the seeded data
+// in ./seed.ts for every operation LinearAPI sends; mutations change the
+// in-memory copy until the server restarts.
+//
+//   npm run fake:linear
+//   LINEAR_API_URL=http://localhost:4010/graphql LINEAR_API_KEY=fake npm run dev
+import { serve } from '../shared/http';
+import { createFakeLinear } from './handler';
+import { createSeedData } from './seed';
+
+serve(
+  'fake-linear',
+  parseInt(process.env.FAKE_LINEAR_PORT || '4010', 10),
+  createFakeLinear(createSeedData())
+);
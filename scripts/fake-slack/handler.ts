@@ -0,0 +1,66 @@
+import { createLogger } from '../../src/lib/logger';
+import { FakeHandler, json, parseJson } from '../shared/http';
+
+export interface RecordedSlackMessage {
+  path: string;
+  body: unknown;
+  receivedAt: string;
+}
+
+// Records every webhook post into `messages` instead of delivering it. Posts
+// to /api/chat.postMessage and /api/chat.update get Web API style answers
+// with a generated message ts, so threading can be exercised too
+export function createFakeSlack(messages: RecordedSlackMessage[]): FakeHandler {
+  const log = createLogger('fake-slack');
+  let lastTs = 0;
+
+  return (request) => {
+    const { method, path } = request;
+
+    if (path === '/__fake/messages') {
+      if (method === 'DELETE') {
+        messages.length = 0;
+        return { status: 204 };
+      }
+      return json(200, messages);
+    }
+
+    if (method !== 'POST') {
+      return json(404, { error: 'POST a webhook payload' });
+    }
+
+    const parsed = parseJson(request);
+    if ('error' in parsed) {
+      return parsed.error;
+    }
+
+    messages.push({
+      path,
+      body: parsed.value,
+      receivedAt: new Date().toISOString(),
+    });
+    log.info({ path, body: parsed.value }, 'Recorded fake Slack message');
+
+    if (path.startsWith('/api/')) {
+      const body = parsed.value as { channel?: string; ts?: string };
+      if (!request.headers.authorization?.startsWith('Bearer ')) {
+        return json(200, { ok: false, error: 'not_authed' });
+      }
+      if (path === '/api/chat.update') {
+        return json(200, { ok: true, channel: body.channel, ts: body.ts });
+      }
+      if (path === '/api/chat.postMessage') {
+        lastTs++;
+        return json(200, {
+          ok: true,
+          channel: body.channel,
+          ts: `1700000000.${String(lastTs).padStart(6, '0')}`,
+        });
+      }
+      return json(200, { ok: false, error: 'unknown_method' });
+    }
+
+    // Slack webhooks answer a plain-text "ok"
+    return { status: 200, body: 'ok', contentType: 'text/plain' };
+  };
+}
@@ -0,0 +1,18 @@
+// Records Slack incoming-webhook posts instead of delivering them. Point any
+// Slack webhook variable (or NOTIFICATION_CHANNELS target) at a path on this
+// server; the path is kept with each message so assertions can tell the
+// channels apart.
+//
+//   npm run fake:slack
+//   SLACK_FIREMAN_WEBHOOK_URL=http://localhost:4030/fireman npm run dev
+//
+//   GET    /__fake/messages   every recorded post
+//   DELETE /__fake/messages   drop all recorded posts
+import { serve } from '../shared/http';
+import { createFakeSlack } from './handler';
+
+serve(
+  'fake-slack',
+  parseInt(process.env.FAKE_SLACK_PORT || '4030', 10),
+  createFakeSlack([])
+);
@@ -0,0 +1,69 @@
+import { createLogger } from '../../src/lib/logger';
+import { FakeHandler, json, parseJson } from '../shared/http';
+import { FakeSliteStore } from './store';
+
+export function createFakeSlite(store: FakeSliteStore): FakeHandler {
+  const log = createLogger('fake-slite');
+
+  return (request) => {
+    const { method, path } = request;
+
+    if (path === '/__fake/notes') {
+      if (method === 'DELETE') {
+        store.reset();
+        return { status: 204 };
+      }
+      return json(200, store.all());
+    }
+
+    if (!request.headers['x-slite-api-key']) {
+      return json(401, { message: 'Missing x-slite-api-key header' });
+    }
+
+    const children = path.match(/^\/v1\/notes\/([^/]+)\/children$/);
+    const note = path.match(/^\/v1\/notes\/([^/]+)$/);
+
+    if (method === 'GET' && children) {
+      return json(200, store.children(children[1]));
+    }
+
+    if (method === 'GET' && note) {
+      const found = store.get(note[1]);
+      return found ? json(200, found) : json(404, { message: 'Not found' });
+    }
+
+    if (method === 'POST' && path === '/v1/notes') {
+      const parsed = parseJson<{
+        title: string;
+        markdown?: string;
+        parentNoteId: string;
+      }>(request);
+      if ('error' in parsed) {
+        return parsed.error;
+      }
+
+      const created = store.create(parsed.value);
+      log.info(
+        { id: created.id, title: created.title },
+        'Created fake Slite note'
+      );
+      return json(200, created);
+    }
+
+    if (method === 'PUT' && note) {
+      const parsed = parseJson<{ title?: string; markdown?: string }>(request);
+      if ('error' in parsed) {
+        return parsed.error;
+      }
+
+      const updated = store.update(note[1], parsed.value);
+      if (!updated) {
+        return json(404, { message: 'Not found' });
+      }
+      log.info({ id: updated.id }, 'Updated fake Slite note');
+      return json(200, updated);
+    }
+
+    return json(404, { message: `No route for ${method} ${path}` });
+  };
+}
@@ -0,0 +1,17 @@
+// Offline stand-in for https://api.slite.com/v1. Keeps notes in memory and
+// exposes them for assertions on the generated release and retro documents.
+//
+//   npm run fake:slite
+//   SLITE_API_URL=http://localhost:4020/v1 SLITE_API_KEY=fake npm run dev
+//
+//   GET    /__fake/notes   every stored note with its markdown
+//   DELETE /__fake/notes   drop all notes
+import { serve } from '../shared/http';
+import { createFakeSlite } from './handler';
+import { FakeSliteStore } from './store';
+
+serve(
+  'fake-slite',
+  parseInt(process.env.FAKE_SLITE_PORT || '4020', 10),
+  createFakeSlite(new FakeSliteStore())
+);
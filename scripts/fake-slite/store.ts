@@ -0,0 +1,80 @@
+export interface FakeSliteNote {
+  id: string;
+  title: string;
+  markdown: string;
+  parentNoteId: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// In-memory notes keyed by ID. Any parent ID is accepted, so the collections
+// configured in SLITE_*_COLLECTION_ID need no seeding
+export class FakeSliteStore {
+  private notes = new Map<string, FakeSliteNote>();
+
+  children(parentNoteId: string) {
+    const notes = this.all().filter(
+      (note) => note.parentNoteId === parentNoteId
+    );
+    return {
+      nextCursor: null,
+      hasNextPage: false,
+      total: notes.length,
+      notes: notes.map((note) => ({
+        id: note.id,
+        title: note.title,
+        parentNoteId: note.parentNoteId,
+        url: this.url(note),
+      })),
+    };
+  }
+
+  get(id: string) {
+    const note = this.notes.get(id);
+    return note ? this.render(note) : null;
+  }
+
+  create(input: { title: string; markdown?: string; parentNoteId: string }) {
+    const now = new Date().toISOString();
+    const note: FakeSliteNote = {
+      id: `note-${this.notes.size + 1}`,
+      title: input.title,
+      markdown: input.markdown ?? '',
+      parentNoteId: input.parentNoteId,
+      created_at: now,
+      updated_at: now,
+    };
+    this.notes.set(note.id, note);
+    return this.render(note);
+  }
+
+  update(id: string, input: { title?: string; markdown?: string }) {
+    const note = this.notes.get(id);
+    if (!note) {
+      return null;
+    }
+
+    note.title = input.title ?? note.title;
+    note.markdown = input.markdown ?? note.markdown;
+    note.updated_at = new Date().toISOString();
+    return this.render(note);
+  }
+
+  all() {
+    return [...this.notes.values()];
+  }
+
+  reset() {
+    this.notes.clear();
+  }
+
+  private url(note: FakeSliteNote) {
+    return `https://fake.slite.com/app/docs/${note.id}`;
+  }
+
+  // Returns the body under both `markdown` and `content`, the two fields
+  // SliteAPI reads from note responses
+  private render(note: FakeSliteNote) {
+    return { ...note, content: note.markdown, url: this.url(note) };
+  }
+}
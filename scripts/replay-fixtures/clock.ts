@@ -0,0 +1,28 @@
+const RealDate = Date;
+
+// Pins "now" to the given instant so release dates, cycle checks and
+// timestamps in the snapshot match the original delivery. Timers are left
+// alone, only Date is replaced
+export function freezeClock(iso: string) {
+  const now = RealDate.parse(iso);
+
+  class FixtureDate extends RealDate {
+    constructor(...args: ConstructorParameters<DateConstructor> | []) {
+      if (args.length === 0) {
+        super(now);
+      } else {
+        super(...(args as ConstructorParameters<DateConstructor>));
+      }
+    }
+
+    static now() {
+      return now;
+    }
+  }
+
+  globalThis.Date = FixtureDate as DateConstructor;
+}
+
+export function restoreClock() {
+  globalThis.Date = RealDate;
+}
@@ -0,0 +1,24 @@
+// Imported first by the harness: the connector's singletons (and the shared
+// logger) read their configuration when their modules load
+
+export const FAKE_HOSTS = {
+  linear: 'fake-linear.test',
+  slite: 'fake-slite.test',
+  slack: 'fake-slack.test',
+};
+
+Object.assign(process.env, {
+  LINEAR_API_URL: `http://${FAKE_HOSTS.linear}/graphql`,
+  LINEAR_API_KEY: 'fake',
+  SLITE_API_URL: `http://${FAKE_HOSTS.slite}/v1`,
+  SLITE_API_KEY: 'fake',
+  SLITE_RELEASE_NOTES_COLLECTION_ID: 'release-notes',
+  SLITE_RETRO_COLLECTION_ID: 'retrospectives',
+  SLACK_FIREMAN_WEBHOOK_URL: `http://${FAKE_HOSTS.slack}/fireman`,
+  SLACK_CYCLE_STATUS_WEBHOOK_URL: `http://${FAKE_HOSTS.slack}/cycle-status`,
+  STORAGE_BACKEND: 'memory',
+  LINEAR_CACHE_BACKEND: 'memory',
+  LINEAR_CACHE_TTL_MS: '0',
+  LINEAR_MAX_RETRIES: '0',
+  LOG_LEVEL: process.env.LOG_LEVEL || 'silent',
+});
@@ -0,0 +1,35 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const EXAMPLES_DIR = path.join(__dirname, 'examples');
+
+const directories = (await fs.readdir(EXAMPLES_DIR, { withFileTypes: true }))
+  .filter((entry) => entry.isDirectory())
+  .map((entry) => entry.name)
+  .sort();
+
+describe('recorded fixture examples', () => {
+  const realFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    // Each directory starts from fresh connector state, as in its own CLI run
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it.each(directories)('%s matches its snapshots', async (directory) => {
+    const { replayFixtures } = await import('./replay');
+
+    const replays = await replayFixtures(path.join(EXAMPLES_DIR, directory));
+
+    expect(replays.length).toBeGreaterThan(0);
+    for (const replay of replays) {
+      expect(replay.expected, `snapshot of ${replay.fileName}`).not.toBeNull();
+      expect(replay.actual, replay.fileName).toBe(replay.expected);
+    }
+  });
+});
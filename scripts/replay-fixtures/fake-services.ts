@@ -0,0 +1,91 @@
+import { createFakeLinear } from '../fake-linear/handler';
+import { operationName } from '../fake-linear/resolvers';
+import { FakeLinearData } from '../fake-linear/seed';
+import { createFakeSlack } from '../fake-slack/handler';
+import { createFakeSlite } from '../fake-slite/handler';
+import { FakeSliteStore } from '../fake-slite/store';
+import { FakeHandler } from '../shared/http';
+import { FAKE_HOSTS } from './env';
+
+export interface OutboundCall {
+  service: string;
+  method: string;
+  path: string;
+  status: number;
+  // Linear calls are recorded as operation + variables rather than the full
+  // query text so snapshots stay readable
+  request?: unknown;
+}
+
+function parseBody(body: string) {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body || undefined;
+  }
+}
+
+function describeRequest(service: string, body: string) {
+  const parsed = parseBody(body);
+  if (service === 'linear' && parsed?.query) {
+    return {
+      operation: operationName(parsed.query),
+      variables: parsed.variables,
+    };
+  }
+  return parsed;
+}
+
+// Replaces global fetch with in-process fakes for Linear, Slite and Slack and
+// records every request (hosts as configured in ./env); any other host fails loudly
+export function installFakeServices(linearData: FakeLinearData) {
+  const calls: OutboundCall[] = [];
+  const handlers: Record<string, [string, FakeHandler]> = {
+    [FAKE_HOSTS.linear]: ['linear', createFakeLinear(linearData)],
+    [FAKE_HOSTS.slite]: ['slite', createFakeSlite(new FakeSliteStore())],
+    [FAKE_HOSTS.slack]: ['slack', createFakeSlack([])],
+  };
+
+  globalThis.fetch = async (input, init = {}) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const entry = handlers[url.host];
+    if (!entry) {
+      throw new Error(`Unexpected outbound request to ${url.origin}`);
+    }
+
+    const [service, handler] = entry;
+    const method = init.method || 'GET';
+    const body = typeof init.body === 'string' ? init.body : '';
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    const path = url.pathname + url.search;
+    const result = handler({ method, path, headers, body });
+    calls.push({
+      service,
+      method,
+      path,
+      status: result.status,
+      request: describeRequest(service, body),
+    });
+
+    const contentType = result.contentType || 'application/json';
+    return new Response(
+      result.body === undefined
+        ? null
+        : contentType === 'application/json'
+          ? JSON.stringify(result.body)
+          : String(result.body),
+      { status: result.status, headers: { 'Content-Type': contentType } }
+    );
+  };
+
+  return {
+    // Returns and clears the calls recorded since the last drain
+    drainCalls() {
+      return calls.splice(0, calls.length);
+    },
+  };
+}
@@ -0,0 +1,82 @@
+// Replays recorded webhook fixtures (see WEBHOOK_FIXTURE_DIR) through
+// processLinearWebhook against in-process fake Linear, Slite and Slack, and
+// compares every outbound call with the snapshot stored next to the fixtures.
+//
+//   npm run fixtures:replay -- <fixture-dir> [--update]
+//
+// Fixtures in a directory replay in file name (= recording) order within one
+// process, so stored state such as relation snapshots carries over between
+// them. An optional linear-seed.json in the directory replaces parts of the
+// default fake Linear seed data. A fixture without a snapshot fails like a
+// changed one; --update writes both.
+import { replayFixtures } from './replay';
+
+function printDiff(expected: string, actual: string) {
+  const expectedLines = expected.split('\n');
+  const actualLines = actual.split('\n');
+  let shown = 0;
+  for (
+    let i = 0;
+    i < Math.max(expectedLines.length, actualLines.length) && shown < 20;
+    i++
+  ) {
+    if (expectedLines[i] !== actualLines[i]) {
+      console.log(`    line ${i + 1}`);
+      console.log(`    - ${expectedLines[i] ?? ''}`);
+      console.log(`    + ${actualLines[i] ?? ''}`);
+      shown++;
+    }
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const directory = args.find((arg) => !arg.startsWith('--'));
+  if (!directory) {
+    console.error('Usage: npm run fixtures:replay -- <fixture-dir> [--update]');
+    process.exit(2);
+  }
+
+  const replays = await replayFixtures(directory, { update });
+  if (replays.length === 0) {
+    console.error(`No fixtures found in ${directory}`);
+    process.exit(2);
+  }
+
+  let failed = 0;
+  for (const { fileName, snapshotPath, outcome, expected, actual } of replays) {
+    switch (outcome) {
+      case 'matched':
+        console.log(`✓ ${fileName}`);
+        break;
+      case 'written':
+      case 'updated':
+        console.log(
+          `${outcome === 'written' ? '+' : '↻'} ${fileName} (snapshot written)`
+        );
+        break;
+      case 'missing':
+        failed++;
+        console.log(`✗ ${fileName} has no snapshot at ${snapshotPath}`);
+        break;
+      case 'changed':
+        failed++;
+        console.log(`✗ ${fileName} differs from ${snapshotPath}`);
+        printDiff(expected!, actual);
+        break;
+    }
+  }
+
+  if (failed > 0) {
+    console.log(
+      `\n${failed} of ${replays.length} fixtures changed or have no snapshot; rerun with --update if the new behaviour is intended`
+    );
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+// Replays one fixture directory and compares the result with its snapshots;
+// shared by the CLI (./index.ts) and the vitest suite (./examples.test.ts)
+import './env';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { WebhookFixture } from '../../src/lib/delivery/fixture-recorder';
+import { processLinearWebhook } from '../../src/lib/webhook-processors';
+import { validateLinearWebhookPayload } from '../../src/lib/validation/linear-webhook-validator';
+import { createSeedData, FakeLinearData } from '../fake-linear/seed';
+import { freezeClock, restoreClock } from './clock';
+import { installFakeServices } from './fake-services';
+
+const SEED_FILE = 'linear-seed.json';
+const SNAPSHOT_DIR = '__snapshots__';
+
+// matched: equal to the snapshot; missing / changed: no snapshot, or a
+// different one (written instead with update); written / updated: the
+// snapshot was (re)written
+export type FixtureOutcome =
+  'matched' | 'missing' | 'changed' | 'written' | 'updated';
+
+export interface FixtureReplay {
+  fileName: string;
+  snapshotPath: string;
+  outcome: FixtureOutcome;
+  expected: string | null;
+  actual: string;
+}
+
+async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Fixtures replay in file name (= recording) order, so stored state such as
+// relation snapshots carries over between them. Returns an empty list when
+// the directory holds no fixtures
+export async function replayFixtures(
+  directory: string,
+  { update = false }: { update?: boolean } = {}
+): Promise<FixtureReplay[]> {
+  const seedOverride = await readJsonFile<Partial<FakeLinearData>>(
+    path.join(directory, SEED_FILE)
+  );
+  const services = installFakeServices({
+    ...createSeedData(),
+    ...seedOverride,
+  });
+
+  const fixtureFiles = (await fs.readdir(directory))
+    .filter((name) => name.endsWith('.json') && name !== SEED_FILE)
+    .sort();
+
+  const replays: FixtureReplay[] = [];
+  try {
+    for (const fileName of fixtureFiles) {
+      const fixture = (await readJsonFile<WebhookFixture>(
+        path.join(directory, fileName)
+      ))!;
+      freezeClock(fixture.recordedAt);
+
+      let result: unknown;
+      const validation = validateLinearWebhookPayload(fixture.payload);
+      if (!validation.valid) {
+        result = { validationIssues: validation.issues };
+      } else {
+        try {
+          result = await processLinearWebhook({
+            type: fixture.type,
+            payload: validation.value,
+            headers: {
+              signature: fixture.headers['linear-signature'] || '',
+              deliveryId: fixture.headers['linear-delivery'] || '',
+              webhookId: fixture.headers['linear-webhook-id'] || '',
+              timestamp: fixture.headers['linear-timestamp'] || '',
+            },
+          });
+        } catch (error) {
+          result = {
+            thrown: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }
+
+      const actual = `${JSON.stringify(
+        { fixture: fileName, result, calls: services.drainCalls() },
+        null,
+        2
+      )}\n`;
+      const snapshotPath = path.join(directory, SNAPSHOT_DIR, fileName);
+      const expected = await fs
+        .readFile(snapshotPath, 'utf8')
+        .catch(() => null);
+
+      let outcome: FixtureOutcome;
+      if (expected === actual) {
+        outcome = 'matched';
+      } else if (update) {
+        await fs.mkdir(path.dirname(snapshotPath), { recursive: true });
+        await fs.writeFile(snapshotPath, actual, 'utf8');
+        outcome = expected === null ? 'written' : 'updated';
+      } else {
+        outcome = expected === null ? 'missing' : 'changed';
+      }
+      replays.push({ fileName, snapshotPath, outcome, expected, actual });
+    }
+  } finally {
+    restoreClock();
+  }
+
+  return replays;
+}
@@ -0,0 +1,72 @@
+import http from 'http';
+import { createLogger } from '../../src/lib/logger';
+
+export interface FakeRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string | undefined>;
+  body: string;
+}
+
+export interface FakeResponse {
+  status: number;
+  body?: unknown;
+  // JSON unless set; Slack webhooks answer plain text
+  contentType?: string;
+}
+
+// Fake services are plain request handlers so they can run behind an HTTP
+// server (npm run fake:*) or in-process behind a fetch stub (replay harness)
+export type FakeHandler = (request: FakeRequest) => FakeResponse;
+
+export function json(status: number, body: unknown): FakeResponse {
+  return { status, body };
+}
+
+// Parses a JSON request body, answering 400 when it is not valid JSON
+export function parseJson<T>(
+  request: FakeRequest
+): { value: T } | { error: FakeResponse } {
+  try {
+    return { value: JSON.parse(request.body) as T };
+  } catch {
+    return { error: json(400, { error: 'Invalid JSON body' }) };
+  }
+}
+
+export function serve(name: string, port: number, handler: FakeHandler) {
+  const log = createLogger(name);
+
+  const server = http.createServer(async (request, response) => {
+    let body = '';
+    for await (const chunk of request) {
+      body += chunk;
+    }
+
+    const headers: Record<string, string | undefined> = {};
+    for (const [key, value] of Object.entries(request.headers)) {
+      headers[key] = Array.isArray(value) ? value.join(', ') : value;
+    }
+
+    const result = handler({
+      method: request.method || 'GET',
+      path: request.url || '/',
+      headers,
+      body,
+    });
+
+    const contentType = result.contentType || 'application/json';
+    response.writeHead(result.status, { 'Content-Type': contentType });
+    response.end(
+      result.body === undefined
+        ? undefined
+        : contentType === 'application/json'
+          ? JSON.stringify(result.body)
+          : String(result.body)
+    );
+  });
+
+  server.listen(port, () => {
+    log.info({ url: `http://localhost:${port}` }, `${name} listening`);
+  });
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { replayDeliveries } from '@/lib/delivery/delivery-replay';
+import { isAdminAuthorized } from '@/lib/security/admin-auth';
+import { createLogger } from '@/lib/logger';
+import { validateReplayRequest } from '@/lib/validation/admin-request-validator';
+
+// Replay a single stored event ({ eventId }) or every completed and
+// dead-lettered event received in a time range ({ from, to }, narrowed with
+// outcome); { dryRun: true } only reports which flows fire
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const log = createLogger('admin-replay');
+
+  if (!isAdminAuthorized(request.headers.get('authorization'))) {
+    log.warn('Unauthorized admin replay request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let parsedBody: unknown;
+  try {
+    parsedBody = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON payload' },
+      { status: 400 }
+    );
+  }
+
+  const validation = validateReplayRequest(parsedBody);
+  if (!validation.valid) {
+    return NextResponse.json(
+      { error: 'Invalid replay request', issues: validation.issues },
+      { status: 400 }
+    );
+  }
+  const body = validation.value;
+
+  if (!body.eventId && !body.from && !body.to) {
+    return NextResponse.json(
+      { error: 'Provide an eventId or a from/to time range' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await replayDeliveries(
+      {
+        eventId: body.eventId,
+        from: body.from,
+        to: body.to,
+        outcome: body.outcome,
+      },
+      { dryRun: !!body.dryRun }
+    );
+
+    if (result.replayed.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'No stored deliveries match the request',
+          notReplayable: result.notReplayable,
+        },
+        { status: 404 }
+      );
+    }
+
+    log.info(
+      {
+        eventId: body.eventId,
+        from: body.from,
+        to: body.to,
+        dryRun: result.dryRun,
+        replayedCount: result.replayed.length,
+        skipped: result.skipped,
+        notReplayable: result.notReplayable,
+      },
+      'Replayed stored deliveries'
+    );
+
+    return NextResponse.json({
+      success: result.replayed.every((delivery) => delivery.success),
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    log.error(
+      {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Error replaying deliveries'
+    );
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
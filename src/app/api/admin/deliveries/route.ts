@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listStoredDeliveries } from '@/lib/delivery/delivery-replay';
+import { validateDeliveryFilter } from '@/lib/validation/admin-request-validator';
+import { isAdminAuthorized } from '@/lib/security/admin-auth';
+import { createLogger } from '@/lib/logger';
+
+// List stored webhook deliveries, optionally filtered by
+// ?eventId=, ?from=, ?to= (ISO timestamps) and ?outcome=
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const log = createLogger('admin-deliveries');
+
+  if (!isAdminAuthorized(request.headers.get('authorization'))) {
+    log.warn('Unauthorized admin deliveries request');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const filter = validateDeliveryFilter(request.nextUrl.searchParams);
+  if (!filter.valid) {
+    return NextResponse.json(
+      { error: 'Invalid query parameters', issues: filter.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deliveries = await listStoredDeliveries(filter.value);
+
+    return NextResponse.json({
+      success: true,
+      count: deliveries.length,
+      deliveries,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    log.error(
+      {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Error listing stored deliveries'
+    );
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
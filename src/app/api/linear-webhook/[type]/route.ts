@@ -1,97 +1,57 @@
-import { NextRequest, NextResponse } from 'next/server';
-import {
-  LinearWebhookPayload,
-  LinearWebhookContext,
-} from '@/lib/types/linear-webhook';
-import { processIssueWebhook } from '@/lib/webhook-processors/issue';
-import { processCommentWebhook } from '@/lib/webhook-processors/comment-processor';
-import { processProjectWebhook } from '@/lib/webhook-processors/project-processor';
-import { processCycleWebhook } from '@/lib/webhook-processors/cycle-processor';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createWebhookLogger } from '@/lib/logger';
+import {
+  unsupportedWebhookType,
+  validateLinearWebhookPayload,
+} from '@/lib/validation/linear-webhook-validator';
+import { verifyLinearWebhook } from '@/lib/security/webhook-signature';
+import { replayGuard, ReplayCheckResult } from '@/lib/security/replay-guard';
+import { deliveryLedger } from '@/lib/delivery/delivery-ledger';
+import { eventQueue } from '@/lib/delivery/event-queue';
+import { processQueuedEvent } from '@/lib/delivery/event-worker';
+import { fixtureRecorder } from '@/lib/delivery/fixture-recorder';
+import { dryRun } from '@/lib/delivery/dry-run';
 
-// Webhook signature verification
-async function verifyLinearWebhook(
-  payload: string,
-  signature: string,
-  secret: string
-): Promise<boolean> {
-  if (!signature || !secret) {
-    return false;
-  }
-
-  try {
-    const encoder = new TextEncoder();
-    const key = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(secret),
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    );
-
-    const expectedSignature = await crypto.subtle.sign(
-      'HMAC',
-      key,
-      encoder.encode(payload)
-    );
-
-    const expectedHex = Array.from(new Uint8Array(expectedSignature))
-      .map((b) => b.toString(16).padStart(2, '0'))
-      .join('');
-
-    const receivedSignature = signature.replace('sha256=', '');
-    return expectedHex === receivedSignature;
-  } catch (error) {
-    const log = createWebhookLogger('signature-verification');
-    log.error(
-      { error: error instanceof Error ? error.message : String(error) },
-      'Error verifying webhook signature'
-    );
-    return false;
-  }
-}
-
-// Process different types of Linear webhook events
-async function processLinearWebhook(context: LinearWebhookContext) {
-  const { type, payload } = context;
-  const log = createWebhookLogger(
-    type,
-    context.headers.webhookId,
-    payload.organizationId
-  );
+type ReplayRejection = Extract<ReplayCheckResult, { accepted: false }>;
 
-  log.info(
+// Every replay is logged the same way with its reason, including duplicates
+// of completed deliveries that are answered from the ledger
+function logReplay(
+  log: ReturnType<typeof createWebhookLogger>,
+  replayCheck: ReplayRejection,
+  deliveryId: string,
+  timestamp: string
+) {
+  log.warn(
     {
-      action: payload.action,
-      issueId: payload.data.id,
-      issueTitle: payload.data.title,
-      organizationId: payload.organizationId,
+      deliveryId,
+      timestamp,
+      reason: replayCheck.reason,
+      detail: replayCheck.detail,
     },
-    `Processing Linear webhook: ${type}`
+    'Rejected replayed webhook delivery'
   );
-
-  switch (payload.type) {
-    case 'Issue':
-      return await processIssueWebhook(payload);
-    case 'Comment':
-      return processCommentWebhook(payload);
-    case 'Project':
-      return processProjectWebhook(payload);
-    case 'Cycle':
-      return await processCycleWebhook(payload);
-    default:
-      log.warn({ unknownType: type }, `Unknown webhook type: ${type}`);
-      return { success: true, message: `Received ${type} webhook` };
-  }
 }
 
-// Processor functions moved to separate files in /lib/webhook-processors/
+function rejectReplay(
+  log: ReturnType<typeof createWebhookLogger>,
+  replayCheck: ReplayRejection,
+  deliveryId: string,
+  timestamp: string
+): NextResponse {
+  logReplay(log, replayCheck, deliveryId, timestamp);
+  return NextResponse.json(
+    { error: 'Webhook replay rejected', reason: replayCheck.reason },
+    { status: 409 }
+  );
+}
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ type: string }> }
 ): Promise<NextResponse> {
   let type = 'unknown';
+  let claimedDeliveryId = '';
   try {
     ({ type } = await params);
     const body = await request.text();
@@ -100,6 +60,9 @@ export async function POST(
     const signature = request.headers.get('linear-signature') || '';
     const webhookId = request.headers.get('linear-webhook-id') || '';
     const timestamp = request.headers.get('linear-timestamp') || '';
+    // linear-delivery is unique per delivery and kept on Linear's retries;
+    // linear-webhook-id is the fallback for senders that do not set it
+    const deliveryId = request.headers.get('linear-delivery') || webhookId;
 
     const log = createWebhookLogger(type, webhookId);
 
@@ -118,9 +81,9 @@ export async function POST(
     }
 
     // Parse the webhook payload
-    let payload: LinearWebhookPayload;
+    let parsedBody: unknown;
     try {
-      payload = JSON.parse(body);
+      parsedBody = JSON.parse(body);
     } catch (error) {
       log.error(
         {
@@ -136,38 +99,166 @@ export async function POST(
       );
     }
 
-    // Create webhook context
-    const context: LinearWebhookContext = {
+    // Recorded before validation so rejected payloads can be reproduced too
+    await fixtureRecorder.record(type, request.headers, parsedBody);
+
+    // Entity types we do not handle are acknowledged so Linear stops
+    // retrying them; only malformed payloads of known types are rejected
+    const unsupportedType = unsupportedWebhookType(parsedBody);
+    if (unsupportedType) {
+      log.warn(
+        { webhookId, timestamp, entityType: unsupportedType },
+        `Ignoring webhook of unsupported type: ${unsupportedType}`
+      );
+      return NextResponse.json({
+        success: true,
+        type,
+        ignored: true,
+        message: `Received ${unsupportedType} webhook`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const validation = validateLinearWebhookPayload(parsedBody);
+    if (!validation.valid) {
+      log.warn(
+        { webhookId, timestamp, issues: validation.issues },
+        'Webhook payload failed schema validation'
+      );
+      return NextResponse.json(
+        { error: 'Invalid webhook payload', issues: validation.issues },
+        { status: 422 }
+      );
+    }
+    const payload = validation.value;
+
+    if (webhookSecret) {
+      // The payload timestamp is covered by the signature, the header is not
+      const replayCheck = replayGuard.checkTimestamp(
+        payload.webhookTimestamp || parseInt(timestamp, 10)
+      );
+      if (!replayCheck.accepted) {
+        return rejectReplay(log, replayCheck, deliveryId, timestamp);
+      }
+    }
+
+    if (!deliveryId) {
+      log.warn(
+        { webhookId, timestamp },
+        'Webhook has no linear-delivery or linear-webhook-id header, retries of it will not be deduplicated'
+      );
+    } else {
+      const claim = await deliveryLedger.claim(deliveryId, {
+        type,
+        action: payload.action,
+      });
+
+      if (claim.status === 'duplicate') {
+        // Linear retried a delivery we already handled; answer from the
+        // ledger instead of triggering Slack/Slite side effects again
+        logReplay(
+          log,
+          {
+            accepted: false,
+            reason: 'duplicate_delivery',
+            detail: `Delivery ${deliveryId} was already processed, answered with the cached response`,
+          },
+          deliveryId,
+          timestamp
+        );
+        return NextResponse.json(claim.record.response, {
+          headers: { 'x-delivery-status': 'duplicate' },
+        });
+      }
+
+      if (claim.status === 'in_progress') {
+        return rejectReplay(
+          log,
+          {
+            accepted: false,
+            reason: 'duplicate_delivery',
+            detail: `Delivery ${deliveryId} is already being processed`,
+          },
+          deliveryId,
+          timestamp
+        );
+      }
+
+      claimedDeliveryId = deliveryId;
+    }
+
+    // Persist the event and acknowledge right away; flows run afterwards so
+    // slow Slite/Slack calls cannot push Linear's delivery past its timeout
+    const event = await eventQueue.enqueue({
+      id: deliveryId || crypto.randomUUID(),
       type,
       payload,
       headers: {
         signature,
+        deliveryId,
         webhookId,
         timestamp,
       },
-    };
+    });
 
-    // Process the webhook
-    const result = await processLinearWebhook(context);
+    let responseBody: Record<string, unknown>;
+    if (dryRun.configured || process.env.WEBHOOK_PROCESS_INLINE === 'true') {
+      // Process before answering so the per-flow results (and the actions a
+      // dry run skipped) reach Linear's delivery log
+      const result = await processQueuedEvent(event.id);
+      responseBody = {
+        success: true,
+        type,
+        queued: false,
+        eventId: event.id,
+        outcome: result.outcome,
+        ...(result.result !== undefined && { result: result.result }),
+        ...(dryRun.configured && {
+          dryRun: { actions: result.dryRunActions ?? [] },
+        }),
+        timestamp: new Date().toISOString(),
+      };
+    } else {
+      after(async () => {
+        await processQueuedEvent(event.id);
+      });
+
+      responseBody = {
+        success: true,
+        type,
+        queued: true,
+        eventId: event.id,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    if (claimedDeliveryId) {
+      await deliveryLedger.complete(claimedDeliveryId, responseBody);
+    }
 
-    // Log successful processing
     log.info(
       {
-        result,
+        eventId: event.id,
+        deliveryId,
         webhookId,
         timestamp,
-        processingTime: Date.now() - parseInt(timestamp || '0'),
       },
-      `Successfully processed ${type} webhook`
+      `Accepted ${type} webhook for processing`
     );
 
-    return NextResponse.json({
-      success: true,
-      type,
-      result,
-      timestamp: new Date().toISOString(),
+    return NextResponse.json(responseBody, {
+      status: responseBody.queued ? 202 : 200,
     });
   } catch (error) {
+    if (claimedDeliveryId) {
+      await deliveryLedger
+        .fail(
+          claimedDeliveryId,
+          error instanceof Error ? error.message : String(error)
+        )
+        .catch(() => undefined);
+    }
+
     const errorLog = createWebhookLogger(type || 'unknown');
     errorLog.error(
       {
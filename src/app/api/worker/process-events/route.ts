@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { drainEventQueue } from '@/lib/delivery/event-worker';
+import { eventQueue } from '@/lib/delivery/event-queue';
+import { deliveryLedger } from '@/lib/delivery/delivery-ledger';
+import { issueRelationTracker } from '@/lib/webhook-processors/issue/utils/relation-tracker';
+import { notifier } from '@/lib/notifications/notifier';
+import { createLogger } from '@/lib/logger';
+import { constantTimeEqual } from '@/lib/security/webhook-signature';
+
+// Vercel Cron authenticates with "Authorization: Bearer <CRON_SECRET>"; the
+// worker is disabled entirely while no secret is configured
+function isAuthorized(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET || '';
+  const authorization = request.headers.get('authorization');
+  if (!cronSecret || !authorization) {
+    return false;
+  }
+  return constantTimeEqual(authorization, `Bearer ${cronSecret}`);
+}
+
+// Retries queued webhook events whose backoff has elapsed
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const log = createLogger('event-worker-route');
+
+  if (!isAuthorized(request)) {
+    log.warn('Unauthorized event worker invocation');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { processed, remaining } = await drainEventQueue();
+    const deadLetters = await eventQueue.listDeadLetters();
+    const prunedDeliveries = await deliveryLedger.prune();
+    const prunedEvents = await eventQueue.prune();
+    const prunedRelationSnapshots = await issueRelationTracker.prune();
+    const prunedSlackThreads = await notifier.prune();
+
+    return NextResponse.json({
+      success: true,
+      processed,
+      remaining,
+      deadLetterCount: deadLetters.length,
+      prunedDeliveries,
+      prunedEvents,
+      prunedRelationSnapshots,
+      prunedSlackThreads,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    log.error(
+      {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      'Error draining event queue'
+    );
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -8,8 +8,14 @@ export default function Home() {
     },
     { type: 'comment', description: 'Handle Linear comment events' },
     { type: 'project', description: 'Handle Linear project events' },
-    { type: 'team', description: 'Handle Linear team events' },
-    { type: 'user', description: 'Handle Linear user events' },
+    { type: 'cycle', description: 'Handle Linear cycle events' },
+    { type: 'issue-label', description: 'Handle Linear issue label events' },
+    {
+      type: 'project-update',
+      description: 'Handle Linear project update events',
+    },
+    { type: 'reaction', description: 'Handle Linear reaction events' },
+    { type: 'attachment', description: 'Handle Linear attachment events' },
   ];
 
   return (
@@ -0,0 +1,296 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LinearAPI } from './linear-api';
+
+function createApi(env: Record<string, string> = {}) {
+  vi.stubEnv('LINEAR_API_KEY', 'test-key');
+  vi.stubEnv('LINEAR_API_URL', 'https://linear.test/graphql');
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+  return new LinearAPI();
+}
+
+function jsonResponse(body: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+    ...init,
+  });
+}
+
+function historyPage(index: number, hasNextPage: boolean) {
+  return jsonResponse({
+    data: {
+      issue: {
+        history: {
+          nodes: [
+            {
+              createdAt: `2025-01-0${index}T09:00:00.000Z`,
+              fromState: { id: 'todo', name: 'Todo', type: 'unstarted' },
+              toState: { id: 'doing', name: 'In Progress', type: 'started' },
+            },
+          ],
+          pageInfo: { hasNextPage, endCursor: `cursor-${index}` },
+        },
+      },
+    },
+  });
+}
+
+function issuesPage(ids: string[], hasNextPage: boolean) {
+  return jsonResponse({
+    data: {
+      issues: {
+        nodes: ids.map((id) => ({
+          id,
+          title: `Issue ${id}`,
+          state: { id: 'todo', name: 'Todo', type: 'unstarted' },
+          labels: { nodes: [] },
+          createdAt: '2025-01-10T09:00:00.000Z',
+          updatedAt: '2025-01-10T09:00:00.000Z',
+        })),
+        pageInfo: { hasNextPage, endCursor: `after-${ids.at(-1)}` },
+      },
+    },
+  });
+}
+
+function requestVariables(call: unknown[]) {
+  return JSON.parse((call[1] as RequestInit).body as string).variables;
+}
+
+describe('LinearAPI', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  describe('issue list pagination', () => {
+    it('follows the cursor until the last page', async () => {
+      const api = createApi();
+      fetchMock
+        .mockResolvedValueOnce(issuesPage(['issue-1', 'issue-2'], true))
+        .mockResolvedValueOnce(issuesPage(['issue-3'], false));
+
+      const issues = await api.getIssuesByLabel('label-1');
+
+      expect(issues?.map((issue) => issue.id)).toEqual([
+        'issue-1',
+        'issue-2',
+        'issue-3',
+      ]);
+      expect(fetchMock.mock.calls.map(requestVariables)).toEqual([
+        { labelId: 'label-1', first: 100, after: null },
+        { labelId: 'label-1', first: 100, after: 'after-issue-2' },
+      ]);
+    });
+
+    it('stops at LINEAR_MAX_PAGES and returns the pages fetched so far', async () => {
+      const api = createApi({ LINEAR_MAX_PAGES: '2' });
+      let page = 0;
+      fetchMock.mockImplementation(async () =>
+        issuesPage([`issue-${++page}`], true)
+      );
+
+      const issues = await api.getIssuesByLabel('label-1');
+
+      expect(issues?.map((issue) => issue.id)).toEqual(['issue-1', 'issue-2']);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns null when a page fails', async () => {
+      const api = createApi({ LINEAR_MAX_RETRIES: '0' });
+      fetchMock
+        .mockResolvedValueOnce(issuesPage(['issue-1'], true))
+        .mockResolvedValueOnce(new Response('Internal error', { status: 500 }));
+
+      expect(await api.getIssuesByLabel('label-1')).toBeNull();
+    });
+  });
+
+  describe('getIssueStateHistory', () => {
+    it('returns every page of transitions', async () => {
+      const api = createApi({ LINEAR_MAX_PAGES: '3' });
+      fetchMock
+        .mockResolvedValueOnce(historyPage(1, true))
+        .mockResolvedValueOnce(historyPage(2, false));
+
+      const history = await api.getIssueStateHistory('issue-1');
+
+      expect(history?.map((t) => t.createdAt)).toEqual([
+        '2025-01-01T09:00:00.000Z',
+        '2025-01-02T09:00:00.000Z',
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns null when the history is cut off at LINEAR_MAX_PAGES', async () => {
+      const api = createApi({ LINEAR_MAX_PAGES: '2' });
+      fetchMock.mockImplementation(async () => historyPage(1, true));
+
+      const history = await api.getIssueStateHistory('issue-1');
+
+      expect(history).toBeNull();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('graphqlRequest retries', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('retries a 5xx with exponential backoff', async () => {
+      const api = createApi();
+      fetchMock
+        .mockResolvedValueOnce(new Response('Bad gateway', { status: 502 }))
+        .mockResolvedValueOnce(new Response('Bad gateway', { status: 502 }))
+        .mockResolvedValueOnce(historyPage(1, false));
+
+      const request = api.getIssueStateHistory('issue-1');
+      await vi.advanceTimersByTimeAsync(999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(await request).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('waits for Retry-After when rate limited', async () => {
+      const api = createApi();
+      fetchMock
+        .mockResolvedValueOnce(
+          new Response('Too many requests', {
+            status: 429,
+            headers: { 'Retry-After': '5' },
+          })
+        )
+        .mockResolvedValueOnce(historyPage(1, false));
+
+      const request = api.getIssueStateHistory('issue-1');
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(await request).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('waits for the rate-limit reset without Retry-After', async () => {
+      const api = createApi();
+      fetchMock
+        .mockResolvedValueOnce(
+          new Response('Too many requests', {
+            status: 429,
+            headers: {
+              'X-RateLimit-Requests-Remaining': '0',
+              'X-RateLimit-Requests-Reset': String(Date.now() + 3000),
+            },
+          })
+        )
+        .mockResolvedValueOnce(historyPage(1, false));
+
+      const request = api.getIssueStateHistory('issue-1');
+      await vi.advanceTimersByTimeAsync(2999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(await request).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('treats a RATELIMITED GraphQL error as rate limiting', async () => {
+      const api = createApi();
+      fetchMock
+        .mockResolvedValueOnce(
+          jsonResponse(
+            { errors: [{ extensions: { code: 'RATELIMITED' } }] },
+            { status: 400, headers: { 'Retry-After': '2' } }
+          )
+        )
+        .mockResolvedValueOnce(historyPage(1, false));
+
+      const request = api.getIssueStateHistory('issue-1');
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(await request).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives up when Retry-After exceeds the retry budget', async () => {
+      const api = createApi({ LINEAR_RETRY_BUDGET_MS: '5000' });
+      fetchMock.mockResolvedValue(
+        new Response('Too many requests', {
+          status: 429,
+          headers: { 'Retry-After': '6' },
+        })
+      );
+
+      expect(await api.getIssueStateHistory('issue-1')).toBeNull();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops once the waits add up to the retry budget', async () => {
+      // Waits of 1s and 2s fit in 3.5s; the third (4s) does not
+      const api = createApi({ LINEAR_RETRY_BUDGET_MS: '3500' });
+      fetchMock.mockImplementation(
+        async () => new Response('Unavailable', { status: 503 })
+      );
+
+      const request = api.getIssueStateHistory('issue-1');
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(await request).toBeNull();
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('stops after LINEAR_MAX_RETRIES retries', async () => {
+      const api = createApi({ LINEAR_MAX_RETRIES: '1' });
+      fetchMock.mockImplementation(async () => {
+        throw new TypeError('fetch failed');
+      });
+
+      const request = api.getIssueStateHistory('issue-1');
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await request).toBeNull();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry a mutation that failed with a 5xx', async () => {
+      const api = createApi();
+      fetchMock.mockResolvedValue(
+        new Response('Internal error', { status: 500 })
+      );
+
+      expect(await api.createComment('issue-1', 'Hello')).toBeNull();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry a request error', async () => {
+      const api = createApi();
+      fetchMock.mockResolvedValue(
+        jsonResponse(
+          { errors: [{ message: 'Entity not found' }] },
+          { status: 400 }
+        )
+      );
+
+      expect(await api.getIssueStateHistory('issue-1')).toBeNull();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+});
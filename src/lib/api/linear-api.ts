@@ -1,5 +1,17 @@
-import { LinearIssueState, LinearIssue } from '../types/linear-webhook';
+import {
+  LinearIssueState,
+  LinearIssue,
+  LinearEntityLookup,
+  LinearLabel,
+  LinearComment,
+  LinearIssueStateTransition,
+  LinearIssueCreateInput,
+  LinearIssueReference,
+  LinearIssueRelation,
+} from '../types/linear-webhook';
 import { createApiLogger } from '../logger';
+import { linearCache } from './linear-cache';
+import { dryRun } from '../delivery/dry-run';
 
 interface GraphQLIssueResponse {
   id: string;
@@ -34,10 +46,23 @@ interface GraphQLIssueResponse {
     id: string;
     name: string;
   };
+  comments?: {
+    nodes: LinearComment[];
+    pageInfo: GraphQLPageInfo;
+  };
+  history?: {
+    nodes: Array<Partial<LinearIssueStateTransition>>;
+    pageInfo: GraphQLPageInfo;
+  };
   createdAt: string;
   updatedAt: string;
 }
 
+interface GraphQLPageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
 interface GraphQLLabelResponse {
   id: string;
   name: string;
@@ -47,26 +72,274 @@ interface GraphQLLabelResponse {
   };
 }
 
-class LinearAPI {
+// Fields selected for every issue returned by the issue list queries
+const ISSUE_FIELDS = `
+  id
+  title
+  description
+  url
+  identifier
+  estimate
+  state {
+    id
+    name
+    type
+    color
+    position
+  }
+  assignee {
+    id
+    name
+    email
+  }
+  labels {
+    nodes {
+      id
+      name
+      color
+      parent {
+        id
+      }
+    }
+  }
+  team {
+    id
+    name
+  }
+  createdAt
+  updatedAt
+`;
+
+const COMMENT_FIELDS = `
+  id
+  body
+  user {
+    name
+  }
+  createdAt
+`;
+
+const HISTORY_FIELDS = `
+  createdAt
+  fromState {
+    id
+    name
+    type
+    position
+  }
+  toState {
+    id
+    name
+    type
+    position
+  }
+`;
+
+const ISSUE_UPDATE_MUTATION = `
+  mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) {
+    issueUpdate(id: $id, input: $input) {
+      success
+      issue {
+        ${ISSUE_FIELDS}
+      }
+    }
+  }
+`;
+
+const PAGE_SIZE = 100;
+// Issues per page when comments are selected too, to stay within Linear's
+// query complexity limit
+const ISSUES_WITH_COMMENTS_PAGE_SIZE = 50;
+const COMMENT_PAGE_SIZE = 50;
+const COMMENT_FETCH_CONCURRENCY = 5;
+const HISTORY_PAGE_SIZE = 50;
+const HISTORY_FETCH_CONCURRENCY = 5;
+const DEFAULT_MAX_PAGES = 20;
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+// Total time one request may spend waiting between retries; well below the
+// 30s maxDuration of the webhook route, so a longer rate limit fails the
+// attempt and the event queue retries it later
+const DEFAULT_RETRY_BUDGET_MS = 10 * 1000;
+
+// Runs fn over items with at most `limit` calls in flight, keeping order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index]);
+      }
+    }
+  );
+
+  await Promise.all(workers);
+  return results;
+}
+
+// History entries that did not change the state have no fromState/toState
+function toTransitions(
+  entries: Array<Partial<LinearIssueStateTransition>>
+): LinearIssueStateTransition[] {
+  return entries.filter(
+    (entry): entry is LinearIssueStateTransition =>
+      !!entry.createdAt && !!entry.fromState && !!entry.toState
+  );
+}
+
+function sortTransitions(transitions: LinearIssueStateTransition[]) {
+  return transitions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// A failed Linear request, classified so we know whether retrying can help
+class LinearRequestError extends Error {
+  constructor(
+    message: string,
+    readonly kind: 'rate_limited' | 'server' | 'network' | 'request',
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LinearRequestError';
+  }
+}
+
+// How long to wait before retrying a rate-limited request: Retry-After if
+// present, otherwise the reset time of whichever limit is exhausted
+function retryAfterFromHeaders(response: Response): number | undefined {
+  const retryAfter = response.headers.get('retry-after');
+  if (retryAfter && Number.isFinite(Number(retryAfter))) {
+    return Number(retryAfter) * 1000;
+  }
+
+  for (const limit of ['requests', 'complexity']) {
+    const remaining = response.headers.get(`x-ratelimit-${limit}-remaining`);
+    const reset = Number(response.headers.get(`x-ratelimit-${limit}-reset`));
+    if (remaining === '0' && Number.isFinite(reset) && reset > 0) {
+      return Math.max(reset - Date.now(), 0);
+    }
+  }
+
+  return undefined;
+}
+
+export class LinearAPI {
   private apiKey: string;
-  private baseUrl = 'https://api.linear.app/graphql';
+  private baseUrl =
+    process.env.LINEAR_API_URL || 'https://api.linear.app/graphql';
   private log = createApiLogger('linear');
+  private maxPages: number;
+  private maxRetries: number;
+  private retryBudgetMs: number;
 
   constructor() {
+    const maxPages = parseInt(process.env.LINEAR_MAX_PAGES || '', 10);
+    this.maxPages =
+      Number.isFinite(maxPages) && maxPages > 0 ? maxPages : DEFAULT_MAX_PAGES;
+
+    const maxRetries = parseInt(process.env.LINEAR_MAX_RETRIES || '', 10);
+    this.maxRetries =
+      Number.isFinite(maxRetries) && maxRetries >= 0
+        ? maxRetries
+        : DEFAULT_MAX_RETRIES;
+
+    const retryBudgetMs = parseInt(
+      process.env.LINEAR_RETRY_BUDGET_MS || '',
+      10
+    );
+    this.retryBudgetMs =
+      Number.isFinite(retryBudgetMs) && retryBudgetMs >= 0
+        ? retryBudgetMs
+        : DEFAULT_RETRY_BUDGET_MS;
+
     this.apiKey = process.env.LINEAR_API_KEY || '';
     if (!this.apiKey) {
       this.log.warn('LINEAR_API_KEY not configured');
     }
   }
 
+  // Retries rate-limited (HTTP 429 / RATELIMITED), 5xx and network failures
+  // with exponential backoff, waiting for the rate-limit reset when Linear
+  // tells us when that is. Mutations are only retried when rate limited, as
+  // a 5xx or dropped connection may still have applied the change. Gives up
+  // once the waits would exceed LINEAR_RETRY_BUDGET_MS.
   private async graphqlRequest(
     query: string,
-    variables?: Record<string, unknown>
+    variables?: Record<string, unknown>,
+    { mutation = false }: { mutation?: boolean } = {}
   ) {
     if (!this.apiKey) {
       throw new Error('Linear API key not configured');
     }
 
+    let waitedMs = 0;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendGraphqlRequest(query, variables);
+      } catch (error) {
+        const requestError =
+          error instanceof LinearRequestError
+            ? error
+            : new LinearRequestError(
+                error instanceof Error ? error.message : String(error),
+                'network'
+              );
+
+        const retryable =
+          requestError.kind === 'rate_limited' ||
+          (!mutation &&
+            (requestError.kind === 'server' ||
+              requestError.kind === 'network'));
+        const delayMs =
+          requestError.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt;
+
+        if (
+          !retryable ||
+          attempt >= this.maxRetries ||
+          waitedMs + delayMs > this.retryBudgetMs
+        ) {
+          this.log.error(
+            {
+              status: requestError.status,
+              error: requestError.message,
+              attempts: attempt + 1,
+              waitedMs,
+              retryBudgetMs: this.retryBudgetMs,
+              query: query.substring(0, 100), // Log first 100 chars of query
+            },
+            'Linear API request failed'
+          );
+          throw requestError;
+        }
+
+        this.log.warn(
+          {
+            status: requestError.status,
+            error: requestError.message,
+            attempt: attempt + 1,
+            maxRetries: this.maxRetries,
+            delayMs,
+          },
+          'Linear API request failed, retrying'
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        waitedMs += delayMs;
+      }
+    }
+  }
+
+  private async sendGraphqlRequest(
+    query: string,
+    variables?: Record<string, unknown>
+  ) {
     const response = await fetch(this.baseUrl, {
       method: 'POST',
       headers: {
@@ -79,27 +352,40 @@ class LinearAPI {
       }),
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      this.log.error(
-        {
-          status: response.status,
-          statusText: response.statusText,
-          errorText,
-          query: query.substring(0, 100), // Log first 100 chars of query
-        },
-        'Linear API request failed'
-      );
-      throw new Error(errorText);
+    const text = await response.text();
+    let body;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Non-JSON bodies (e.g. gateway errors) are reported as plain text
+      body = null;
     }
 
-    const data = await response.json();
-
-    if (data.errors) {
-      throw new Error(`Linear GraphQL errors: ${JSON.stringify(data.errors)}`);
+    if (response.ok && body && !body.errors) {
+      return body.data;
     }
 
-    return data.data;
+    // Linear reports rate limiting (request count and query complexity) as
+    // a RATELIMITED GraphQL error, usually with HTTP 400
+    const rateLimited =
+      response.status === 429 ||
+      !!body?.errors?.some(
+        (e: { extensions?: { code?: string } }) =>
+          e.extensions?.code === 'RATELIMITED'
+      );
+
+    throw new LinearRequestError(
+      body?.errors
+        ? `Linear GraphQL errors: ${JSON.stringify(body.errors)}`
+        : text,
+      rateLimited
+        ? 'rate_limited'
+        : response.status >= 500
+          ? 'server'
+          : 'request',
+      response.status,
+      rateLimited ? retryAfterFromHeaders(response) : undefined
+    );
   }
 
   async getIssueState(stateId: string): Promise<LinearIssueState | null> {
@@ -116,8 +402,13 @@ class LinearAPI {
     `;
 
     try {
-      const data = await this.graphqlRequest(query, { id: stateId });
-      return data.workflowState;
+      return await linearCache.getOrLoad<LinearIssueState>(
+        `state:${stateId}`,
+        async () => {
+          const data = await this.graphqlRequest(query, { id: stateId });
+          return data.workflowState;
+        }
+      );
     } catch (error) {
       this.log.error(
         {
@@ -130,80 +421,267 @@ class LinearAPI {
     }
   }
 
-  async getIssuesByLabel(labelId: string): Promise<LinearIssue[]> {
+  // Resolves users, cycles, projects, labels, teams and issues by ID in one
+  // GraphQL request. Users, cycles and labels are served from the cache when
+  // possible; only the remaining IDs are included in the query.
+  async getEntitiesByIds(ids: {
+    userIds?: string[];
+    cycleIds?: string[];
+    projectIds?: string[];
+    labelIds?: string[];
+    teamIds?: string[];
+    issueIds?: string[];
+  }): Promise<LinearEntityLookup> {
+    const lookup: LinearEntityLookup = {
+      users: [],
+      cycles: [],
+      projects: [],
+      labels: [],
+      teams: [],
+      issues: [],
+    };
+
+    const sections: Array<{
+      key: string;
+      ids?: string[];
+      field: string;
+      selection: string;
+      result: keyof LinearEntityLookup;
+      cachePrefix?: string;
+    }> = [
+      {
+        key: 'userIds',
+        ids: ids.userIds,
+        field: 'users',
+        selection: 'id name email avatarUrl',
+        result: 'users',
+        cachePrefix: 'user',
+      },
+      {
+        key: 'cycleIds',
+        ids: ids.cycleIds,
+        field: 'cycles',
+        selection: 'id number name',
+        result: 'cycles',
+        cachePrefix: 'cycle-ref',
+      },
+      {
+        key: 'projectIds',
+        ids: ids.projectIds,
+        field: 'projects',
+        selection: 'id name',
+        result: 'projects',
+      },
+      {
+        key: 'labelIds',
+        ids: ids.labelIds,
+        field: 'issueLabels',
+        selection: 'id name color parent { id }',
+        result: 'labels',
+        cachePrefix: 'label',
+      },
+      {
+        key: 'teamIds',
+        ids: ids.teamIds,
+        field: 'teams',
+        selection: 'id name key',
+        result: 'teams',
+      },
+      {
+        key: 'issueIds',
+        ids: ids.issueIds,
+        field: 'issues',
+        selection: 'id identifier title',
+        result: 'issues',
+      },
+    ];
+
+    for (const section of sections) {
+      if (!section.cachePrefix || !section.ids) continue;
+
+      const missing: string[] = [];
+      for (const id of section.ids) {
+        const cached = await linearCache.get(`${section.cachePrefix}:${id}`);
+        if (cached) {
+          (lookup[section.result] as unknown[]).push(cached);
+        } else {
+          missing.push(id);
+        }
+      }
+      section.ids = missing;
+    }
+
+    const pending = sections.filter(
+      (section) => section.ids && section.ids.length > 0
+    );
+    if (pending.length === 0) {
+      return lookup;
+    }
+
     const query = `
-      query GetIssuesByLabel($labelId: ID!, $first: Int) {
-        issues(
-          filter: {
-            labels: { id: { eq: $labelId } }
+      query GetEntitiesByIds(${pending
+        .map((section) => `$${section.key}: [ID!]`)
+        .join(', ')}) {
+        ${pending
+          .map(
+            (section) => `
+        ${section.field}(filter: { id: { in: $${section.key} } }, first: ${section.ids!.length}) {
+          nodes { ${section.selection} }
+        }`
+          )
+          .join('')}
+      }
+    `;
+
+    try {
+      const data = await this.graphqlRequest(
+        query,
+        Object.fromEntries(pending.map((section) => [section.key, section.ids]))
+      );
+
+      for (const section of pending) {
+        const nodes = (data[section.field]?.nodes || []).map(
+          (node: { id: string }) =>
+            section.result === 'labels'
+              ? this.toLabel(node as GraphQLLabelResponse)
+              : node
+        );
+
+        (lookup[section.result] as unknown[]).push(...nodes);
+
+        if (section.cachePrefix) {
+          for (const node of nodes) {
+            await linearCache.set(`${section.cachePrefix}:${node.id}`, node);
           }
-          first: $first
-        ) {
-          nodes {
-            id
-            title
-            description
-            url
-            identifier
-            estimate
-            state {
-              id
-              name
+        }
+      }
+
+      return lookup;
+    } catch (error) {
+      this.log.error(
+        {
+          ids,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Error fetching entities by ID'
+      );
+      return lookup;
+    }
+  }
+
+  // Called when Linear tells us a cycle or label changed
+  async invalidateCycle(cycleId: string) {
+    await linearCache.invalidate(`cycle:${cycleId}`);
+    await linearCache.invalidate(`cycle-ref:${cycleId}`);
+  }
+
+  async invalidateLabel(labelId: string) {
+    await linearCache.invalidate(`label:${labelId}`);
+  }
+
+  getCacheStats() {
+    return linearCache.getStats();
+  }
+
+  private toLabel(label: GraphQLLabelResponse): LinearLabel {
+    return {
+      id: label.id,
+      name: label.name,
+      color: label.color,
+      parentId: label.parent?.id,
+    };
+  }
+
+  // Returns null (rather than []) on failure so callers can tell "no
+  // relations" apart from "could not fetch relations"
+  async getIssueRelations(
+    issueId: string
+  ): Promise<LinearIssueRelation[] | null> {
+    const query = `
+      query GetIssueRelations($issueId: String!) {
+        issue(id: $issueId) {
+          relations {
+            nodes {
               type
-              color
-              position
-            }
-            assignee {
-              id
-              name
-              email
-            }
-            labels {
-              nodes {
+              relatedIssue {
                 id
-                name
-                color
-                parent {
-                  id
-                }
+                identifier
+                title
               }
             }
-            team {
-              id
-              name
+          }
+          inverseRelations {
+            nodes {
+              type
+              issue {
+                id
+                identifier
+                title
+              }
             }
-            createdAt
-            updatedAt
           }
         }
       }
     `;
 
     try {
-      const data = await this.graphqlRequest(query, {
-        labelId,
-        first: 100, // Adjust as needed
-      });
+      const data = await this.graphqlRequest(query, { issueId });
+      if (!data.issue) {
+        return null;
+      }
+
+      const blocks = data.issue.relations.nodes
+        .filter((relation: { type: string }) => relation.type === 'blocks')
+        .map((relation: { relatedIssue: LinearIssueReference }) => ({
+          type: 'blocks' as const,
+          issue: relation.relatedIssue,
+        }));
+      const blockedBy = data.issue.inverseRelations.nodes
+        .filter((relation: { type: string }) => relation.type === 'blocks')
+        .map((relation: { issue: LinearIssueReference }) => ({
+          type: 'blocked_by' as const,
+          issue: relation.issue,
+        }));
 
-      return data.issues.nodes.map((issue: GraphQLIssueResponse) => ({
-        id: issue.id,
-        title: issue.title,
-        description: issue.description,
-        url: issue.url,
-        identifier: issue.identifier,
-        estimate: issue.estimate,
-        state: issue.state,
-        assignee: issue.assignee,
-        labels: issue.labels.nodes.map((label: GraphQLLabelResponse) => ({
-          id: label.id,
-          name: label.name,
-          color: label.color,
-          parentId: label.parent?.id,
-        })),
-        team: issue.team,
-        createdAt: issue.createdAt,
-        updatedAt: issue.updatedAt,
-      }));
+      return [...blocks, ...blockedBy];
+    } catch (error) {
+      this.log.error(
+        {
+          issueId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        `Error fetching relations for issue ${issueId}`
+      );
+      return null;
+    }
+  }
+
+  // The issue list queries return null when the fetch failed, so callers
+  // never mistake a failed request for a label or cycle without issues
+  async getIssuesByLabel(labelId: string): Promise<LinearIssue[] | null> {
+    const query = `
+      query GetIssuesByLabel($labelId: ID!, $first: Int, $after: String) {
+        issues(
+          filter: {
+            labels: { id: { eq: $labelId } }
+          }
+          first: $first
+          after: $after
+        ) {
+          nodes {
+            ${ISSUE_FIELDS}
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    `;
+
+    try {
+      const issues = await this.fetchAllIssues(query, { labelId });
+      return issues.map((issue) => this.toIssue(issue));
     } catch (error) {
       this.log.error(
         {
@@ -212,85 +690,37 @@ class LinearAPI {
         },
         `Error fetching issues for label ${labelId}`
       );
-      return [];
+      return null;
     }
   }
 
-  async getIssuesByLabelParent(parentLabelId: string): Promise<LinearIssue[]> {
+  async getIssuesByLabelParent(
+    parentLabelId: string
+  ): Promise<LinearIssue[] | null> {
     const query = `
-      query GetIssuesByLabelParent($parentLabelId: String!, $first: Int) {
+      query GetIssuesByLabelParent($parentLabelId: String!, $first: Int, $after: String) {
         issues(
           filter: {
             labels: { parent: { id: { eq: $parentLabelId } } }
           }
           first: $first
+          after: $after
           orderBy: updatedAt
         ) {
           nodes {
-            id
-            title
-            description
-            url
-            identifier
-            estimate
-            state {
-              id
-              name
-              type
-              color
-              position
-            }
-            assignee {
-              id
-              name
-              email
-            }
-            labels {
-              nodes {
-                id
-                name
-                color
-                parent {
-                  id
-                }
-              }
-            }
-            team {
-              id
-              name
-            }
-            createdAt
-            updatedAt
+            ${ISSUE_FIELDS}
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
           }
         }
       }
     `;
 
     try {
-      const data = await this.graphqlRequest(query, {
-        parentLabelId,
-        first: 100,
-      });
-
-      return data.issues.nodes.map((issue: GraphQLIssueResponse) => ({
-        id: issue.id,
-        title: issue.title,
-        description: issue.description,
-        url: issue.url,
-        identifier: issue.identifier,
-        estimate: issue.estimate,
-        state: issue.state,
-        assignee: issue.assignee,
-        labels: issue.labels.nodes.map((label: GraphQLLabelResponse) => ({
-          id: label.id,
-          name: label.name,
-          color: label.color,
-          parentId: label.parent?.id,
-        })),
-        team: issue.team,
-        createdAt: issue.createdAt,
-        updatedAt: issue.updatedAt,
-      }));
+      const issues = await this.fetchAllIssues(query, { parentLabelId });
+      return issues.map((issue) => this.toIssue(issue));
     } catch (error) {
       this.log.error(
         {
@@ -299,114 +729,299 @@ class LinearAPI {
         },
         `Error fetching issues for parent label ${parentLabelId}`
       );
-      return [];
+      return null;
     }
   }
-  async getIssuesByCycle(cycleId: string): Promise<LinearIssue[]> {
+
+  async getIssuesByCycle(cycleId: string): Promise<LinearIssue[] | null> {
     const query = `
-      query GetIssuesByCycle($cycleId: ID!, $first: Int) {
+      query GetIssuesByCycle($cycleId: ID!, $first: Int, $after: String) {
         issues(
           filter: {
             cycle: { id: { eq: $cycleId } }
           }
           first: $first
+          after: $after
         ) {
           nodes {
-            id
-            title
-            description
-            url
-            identifier
-            estimate
-            state {
-              id
-              name
-              type
-              color
-              position
-            }
-            assignee {
-              id
-              name
-              email
-            }
-            labels {
+            ${ISSUE_FIELDS}
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    `;
+
+    try {
+      const issues = await this.fetchAllIssues(query, { cycleId });
+      return issues.map((issue) => this.toIssue(issue));
+    } catch (error) {
+      this.log.error(
+        {
+          cycleId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        `Error fetching issues for cycle ${cycleId}`
+      );
+      return null;
+    }
+  }
+
+  // Issues of a cycle together with all of their comments. The first page of
+  // comments comes with the issues; issues with more comments have the rest
+  // fetched separately, a few at a time.
+  async getIssuesByCycleWithComments(
+    cycleId: string
+  ): Promise<LinearIssue[] | null> {
+    const query = `
+      query GetIssuesByCycleWithComments($cycleId: ID!, $first: Int, $after: String) {
+        issues(
+          filter: {
+            cycle: { id: { eq: $cycleId } }
+          }
+          first: $first
+          after: $after
+        ) {
+          nodes {
+            ${ISSUE_FIELDS}
+            comments(first: ${COMMENT_PAGE_SIZE}) {
               nodes {
-                id
-                name
-                color
-                parent {
-                  id
-                }
+                ${COMMENT_FIELDS}
+              }
+              pageInfo {
+                hasNextPage
+                endCursor
               }
             }
-            team {
-              id
-              name
+            history(first: ${HISTORY_PAGE_SIZE}) {
+              nodes {
+                ${HISTORY_FIELDS}
+              }
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
             }
-            createdAt
-            updatedAt
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
           }
         }
       }
     `;
 
+    let nodes: GraphQLIssueResponse[];
     try {
+      nodes = await this.fetchAllIssues(
+        query,
+        { cycleId },
+        ISSUES_WITH_COMMENTS_PAGE_SIZE
+      );
+    } catch (error) {
+      this.log.error(
+        {
+          cycleId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        `Error fetching issues with comments for cycle ${cycleId}`
+      );
+      return null;
+    }
+
+    const issues = nodes.map((issue) => this.toIssue(issue));
+    const truncated = nodes.filter(
+      (issue) => issue.comments?.pageInfo.hasNextPage
+    );
+
+    const remainingComments = await mapWithConcurrency(
+      truncated,
+      COMMENT_FETCH_CONCURRENCY,
+      (issue) =>
+        this.getIssueComments(issue.id, issue.comments!.pageInfo.endCursor)
+    );
+
+    truncated.forEach((node, index) => {
+      const issue = issues.find((i) => i.id === node.id)!;
+      const rest = remainingComments[index];
+      if (rest) {
+        issue.comments = [...(issue.comments || []), ...rest];
+      } else {
+        this.log.warn(
+          { cycleId, issueId: node.id },
+          'Could not fetch remaining comments, using the first page only'
+        );
+      }
+    });
+
+    // The same for state histories, except that a partial history would
+    // give a wrong reopen count, so it is dropped instead
+    const longHistories = nodes.filter(
+      (issue) => issue.history?.pageInfo.hasNextPage
+    );
+    const remainingHistories = await mapWithConcurrency(
+      longHistories,
+      HISTORY_FETCH_CONCURRENCY,
+      (issue) =>
+        this.getIssueStateHistory(issue.id, issue.history!.pageInfo.endCursor)
+    );
+
+    longHistories.forEach((node, index) => {
+      const issue = issues.find((i) => i.id === node.id)!;
+      const rest = remainingHistories[index];
+      if (rest) {
+        issue.stateHistory = sortTransitions([
+          ...(issue.stateHistory || []),
+          ...rest,
+        ]);
+      } else {
+        issue.stateHistory = undefined;
+        this.log.warn(
+          { cycleId, issueId: node.id },
+          'Could not fetch the remaining state history, reopen count unknown'
+        );
+      }
+    });
+
+    return issues;
+  }
+
+  // Follows pageInfo.endCursor until every page is read, or until
+  // LINEAR_MAX_PAGES pages have been fetched (logged, as results are cut off)
+  private async fetchAllIssues(
+    query: string,
+    variables: Record<string, unknown>,
+    pageSize = PAGE_SIZE
+  ): Promise<GraphQLIssueResponse[]> {
+    const issues: GraphQLIssueResponse[] = [];
+    let after: string | null = null;
+
+    for (let page = 1; page <= this.maxPages; page++) {
       const data = await this.graphqlRequest(query, {
-        cycleId,
-        first: 100,
+        ...variables,
+        first: pageSize,
+        after,
       });
 
-      return data.issues.nodes.map((issue: GraphQLIssueResponse) => ({
-        id: issue.id,
-        title: issue.title,
-        description: issue.description,
-        url: issue.url,
-        identifier: issue.identifier,
-        estimate: issue.estimate,
-        state: issue.state,
-        assignee: issue.assignee,
-        labels: issue.labels.nodes.map((label: GraphQLLabelResponse) => ({
-          id: label.id,
-          name: label.name,
-          color: label.color,
-          parentId: label.parent?.id,
-        })),
-        team: issue.team,
-        createdAt: issue.createdAt,
-        updatedAt: issue.updatedAt,
-      }));
+      issues.push(...data.issues.nodes);
+
+      const { hasNextPage, endCursor } = data.issues.pageInfo;
+      if (!hasNextPage) {
+        return issues;
+      }
+      after = endCursor;
+    }
+
+    this.log.warn(
+      {
+        ...variables,
+        maxPages: this.maxPages,
+        pageSize,
+        fetchedCount: issues.length,
+      },
+      'Reached LINEAR_MAX_PAGES while paginating issues, results are truncated'
+    );
+    return issues;
+  }
+
+  private toIssue(issue: GraphQLIssueResponse): LinearIssue {
+    return {
+      id: issue.id,
+      title: issue.title,
+      description: issue.description,
+      url: issue.url,
+      identifier: issue.identifier,
+      estimate: issue.estimate,
+      state: issue.state,
+      assignee: issue.assignee,
+      labels: issue.labels.nodes.map((label) => this.toLabel(label)),
+      team: issue.team,
+      comments: issue.comments?.nodes,
+      stateHistory:
+        issue.history && sortTransitions(toTransitions(issue.history.nodes)),
+      createdAt: issue.createdAt,
+      updatedAt: issue.updatedAt,
+    };
+  }
+
+  // All comments of an issue, optionally starting after a cursor; returns
+  // null when the fetch failed
+  async getIssueComments(
+    issueId: string,
+    after: string | null = null
+  ): Promise<LinearComment[] | null> {
+    const query = `
+      query GetIssueComments($issueId: String!, $first: Int, $after: String) {
+        issue(id: $issueId) {
+          comments(first: $first, after: $after) {
+            nodes {
+              ${COMMENT_FIELDS}
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const comments: LinearComment[] = [];
+      let cursor = after;
+
+      for (let page = 1; page <= this.maxPages; page++) {
+        const data = await this.graphqlRequest(query, {
+          issueId,
+          first: COMMENT_PAGE_SIZE,
+          after: cursor,
+        });
+
+        const connection = data.issue?.comments;
+        comments.push(...(connection?.nodes || []));
+
+        if (!connection?.pageInfo.hasNextPage) {
+          return comments;
+        }
+        cursor = connection.pageInfo.endCursor;
+      }
+
+      this.log.warn(
+        { issueId, maxPages: this.maxPages, fetchedCount: comments.length },
+        'Reached LINEAR_MAX_PAGES while paginating comments, results are truncated'
+      );
+      return comments;
     } catch (error) {
       this.log.error(
         {
-          cycleId,
+          issueId,
           error: error instanceof Error ? error.message : String(error),
         },
-        `Error fetching issues for cycle ${cycleId}`
+        `Error fetching comments for issue ${issueId}`
       );
-      return [];
+      return null;
     }
   }
 
-  async getIssueComments(issueId: string): Promise<
-    Array<{
-      id: string;
-      body: string;
-      user: { name: string };
-      createdAt: string;
-    }>
-  > {
+  // State transitions of an issue, oldest first, optionally starting after a
+  // cursor; history entries that did not change the state are skipped.
+  // Returns null when the fetch failed or was cut off at LINEAR_MAX_PAGES.
+  async getIssueStateHistory(
+    issueId: string,
+    after: string | null = null
+  ): Promise<LinearIssueStateTransition[] | null> {
     const query = `
-      query GetIssueComments($issueId: String!, $first: Int) {
+      query GetIssueHistory($issueId: String!, $first: Int, $after: String) {
         issue(id: $issueId) {
-          comments(first: $first) {
+          history(first: $first, after: $after) {
             nodes {
-              id
-              body
-              user {
-                name
-              }
-              createdAt
+              ${HISTORY_FIELDS}
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
             }
           }
         }
@@ -414,21 +1029,210 @@ class LinearAPI {
     `;
 
     try {
-      const data = await this.graphqlRequest(query, {
-        issueId,
-        first: 50,
-      });
+      const transitions: LinearIssueStateTransition[] = [];
+      let cursor = after;
+
+      for (let page = 1; page <= this.maxPages; page++) {
+        const data = await this.graphqlRequest(query, {
+          issueId,
+          first: PAGE_SIZE,
+          after: cursor,
+        });
 
-      return data.issue?.comments?.nodes || [];
+        const connection = data.issue?.history;
+        transitions.push(...toTransitions(connection?.nodes || []));
+
+        if (!connection?.pageInfo.hasNextPage) {
+          return sortTransitions(transitions);
+        }
+        cursor = connection.pageInfo.endCursor;
+      }
+
+      // A partial history would undercount reopens; callers report it as
+      // unknown instead
+      this.log.warn(
+        { issueId, maxPages: this.maxPages, fetchedCount: transitions.length },
+        'Reached LINEAR_MAX_PAGES while paginating history, history is unavailable'
+      );
+      return null;
     } catch (error) {
       this.log.error(
         {
           issueId,
           error: error instanceof Error ? error.message : String(error),
         },
-        `Error fetching comments for issue ${issueId}`
+        `Error fetching history for issue ${issueId}`
+      );
+      return null;
+    }
+  }
+
+  async createComment(
+    issueId: string,
+    body: string
+  ): Promise<LinearComment | null> {
+    const query = `
+      mutation CreateComment($input: CommentCreateInput!) {
+        commentCreate(input: $input) {
+          success
+          comment {
+            ${COMMENT_FIELDS}
+          }
+        }
+      }
+    `;
+
+    if (dryRun.intercept('linear', 'commentCreate', { issueId, body })) {
+      return null;
+    }
+
+    try {
+      const data = await this.graphqlRequest(
+        query,
+        { input: { issueId, body } },
+        { mutation: true }
+      );
+
+      if (!data.commentCreate.success) {
+        throw new Error('commentCreate reported success: false');
+      }
+
+      this.log.info(
+        { issueId, commentId: data.commentCreate.comment.id },
+        `Created comment on issue ${issueId}`
+      );
+      return data.commentCreate.comment;
+    } catch (error) {
+      this.log.error(
+        {
+          issueId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        `Error creating comment on issue ${issueId}`
       );
-      return [];
+      return null;
+    }
+  }
+
+  async addIssueLabel(
+    issueId: string,
+    labelId: string
+  ): Promise<LinearIssue | null> {
+    return this.issueMutation(
+      'issueAddLabel',
+      `mutation AddIssueLabel($id: String!, $labelId: String!) {
+        issueAddLabel(id: $id, labelId: $labelId) {
+          success
+          issue {
+            ${ISSUE_FIELDS}
+          }
+        }
+      }`,
+      { id: issueId, labelId },
+      `Error adding label ${labelId} to issue ${issueId}`
+    );
+  }
+
+  async removeIssueLabel(
+    issueId: string,
+    labelId: string
+  ): Promise<LinearIssue | null> {
+    return this.issueMutation(
+      'issueRemoveLabel',
+      `mutation RemoveIssueLabel($id: String!, $labelId: String!) {
+        issueRemoveLabel(id: $id, labelId: $labelId) {
+          success
+          issue {
+            ${ISSUE_FIELDS}
+          }
+        }
+      }`,
+      { id: issueId, labelId },
+      `Error removing label ${labelId} from issue ${issueId}`
+    );
+  }
+
+  async updateIssueState(
+    issueId: string,
+    stateId: string
+  ): Promise<LinearIssue | null> {
+    return this.issueMutation(
+      'issueUpdate',
+      ISSUE_UPDATE_MUTATION,
+      { id: issueId, input: { stateId } },
+      `Error updating state of issue ${issueId}`
+    );
+  }
+
+  // Pass null to unassign the issue
+  async setIssueAssignee(
+    issueId: string,
+    assigneeId: string | null
+  ): Promise<LinearIssue | null> {
+    return this.issueMutation(
+      'issueUpdate',
+      ISSUE_UPDATE_MUTATION,
+      { id: issueId, input: { assigneeId } },
+      `Error setting assignee of issue ${issueId}`
+    );
+  }
+
+  async createIssue(
+    input: LinearIssueCreateInput
+  ): Promise<LinearIssue | null> {
+    return this.issueMutation(
+      'issueCreate',
+      `mutation CreateIssue($input: IssueCreateInput!) {
+        issueCreate(input: $input) {
+          success
+          issue {
+            ${ISSUE_FIELDS}
+          }
+        }
+      }`,
+      { input },
+      `Error creating issue "${input.title}"`
+    );
+  }
+
+  // Runs a mutation returning an IssuePayload ({ success, issue }); logs and
+  // returns null when the request fails, Linear reports success: false or the
+  // mutation was skipped by a dry run
+  private async issueMutation(
+    field: string,
+    query: string,
+    variables: Record<string, unknown>,
+    errorMessage: string
+  ): Promise<LinearIssue | null> {
+    if (dryRun.intercept('linear', field, variables)) {
+      return null;
+    }
+
+    try {
+      const data = await this.graphqlRequest(query, variables, {
+        mutation: true,
+      });
+      const payload = data[field];
+
+      if (!payload?.success || !payload.issue) {
+        throw new Error(`${field} reported success: false`);
+      }
+
+      this.log.info(
+        { mutation: field, issueId: payload.issue.id, variables },
+        `Linear mutation ${field} succeeded`
+      );
+      return this.toIssue(payload.issue);
+    } catch (error) {
+      this.log.error(
+        {
+          mutation: field,
+          variables,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        errorMessage
+      );
+      return null;
     }
   }
 
@@ -452,8 +1256,10 @@ class LinearAPI {
     `;
 
     try {
-      const data = await this.graphqlRequest(query, { cycleId });
-      return data.cycle;
+      return await linearCache.getOrLoad(`cycle:${cycleId}`, async () => {
+        const data = await this.graphqlRequest(query, { cycleId });
+        return data.cycle;
+      });
     } catch (error) {
       this.log.error(
         {
@@ -0,0 +1,119 @@
+import { createStorage, KeyValueStorage, StorageBackend } from '../storage';
+import { createLogger } from '../logger';
+
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+// TTL cache for Linear entities that rarely change (workflow states, labels,
+// users, cycles). Keys are "<kind>:<id>", e.g. "cycle:abc".
+export class LinearCache {
+  private log = createLogger('linear-cache');
+  private stats: CacheStats = { hits: 0, misses: 0 };
+
+  constructor(
+    private storage: KeyValueStorage<CacheEntry<unknown>>,
+    private ttlMs: number
+  ) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    let entry: CacheEntry<unknown> | null = null;
+    try {
+      entry = await this.storage.get(key);
+    } catch (error) {
+      // A broken cache backend must not break Linear lookups
+      this.log.warn(
+        {
+          key,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Cache read failed'
+      );
+    }
+
+    if (entry && entry.expiresAt > Date.now()) {
+      this.stats.hits++;
+      this.log.debug({ key, ...this.stats }, 'Cache hit');
+      return entry.value as T;
+    }
+
+    this.stats.misses++;
+    this.log.debug({ key, expired: !!entry, ...this.stats }, 'Cache miss');
+    return null;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    try {
+      await this.storage.set(key, {
+        value,
+        expiresAt: Date.now() + this.ttlMs,
+      });
+    } catch (error) {
+      this.log.warn(
+        {
+          key,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Cache write failed'
+      );
+    }
+  }
+
+  // Returns the cached value or loads and caches it; null results (not found
+  // or failed requests) are not cached
+  async getOrLoad<T>(
+    key: string,
+    load: () => Promise<T | null>
+  ): Promise<T | null> {
+    const cached = await this.get<T>(key);
+    if (cached !== null) {
+      return cached;
+    }
+
+    const value = await load();
+    if (value !== null) {
+      await this.set(key, value);
+    }
+    return value;
+  }
+
+  async invalidate(key: string): Promise<void> {
+    try {
+      await this.storage.delete(key);
+      this.log.info({ key }, 'Cache entry invalidated');
+    } catch (error) {
+      this.log.warn(
+        {
+          key,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Cache invalidation failed'
+      );
+    }
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+}
+
+function readTtlFromEnv(): number {
+  const value = parseInt(process.env.LINEAR_CACHE_TTL_MS || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_TTL_MS;
+}
+
+export const linearCache = new LinearCache(
+  createStorage<CacheEntry<unknown>>(
+    'linear-cache',
+    (process.env.LINEAR_CACHE_BACKEND as StorageBackend) || 'memory'
+  ),
+  readTtlFromEnv()
+);
@@ -1,4 +1,5 @@
 import { createApiLogger } from '../logger';
+import { dryRun } from '../delivery/dry-run';
 
 interface SliteDocument {
   id: string;
@@ -32,7 +33,7 @@ interface SliteCollectionDocument {
 
 class SliteAPI {
   private apiKey: string;
-  private baseUrl = 'https://api.slite.com/v1';
+  private baseUrl = process.env.SLITE_API_URL || 'https://api.slite.com/v1';
   private collectionId = process.env.SLITE_RELEASE_NOTES_COLLECTION_ID || '';
   private log = createApiLogger('slite');
 
@@ -48,6 +49,20 @@ class SliteAPI {
       throw new Error('Slite API key not configured');
     }
 
+    const method = options.method || 'GET';
+    const requestBody =
+      typeof options.body === 'string' ? JSON.parse(options.body) : undefined;
+    if (
+      method !== 'GET' &&
+      dryRun.intercept('slite', `${method} ${endpoint}`, requestBody)
+    ) {
+      // Echo the request like Slite would, keeping the note ID on updates
+      return {
+        id: endpoint.match(/^\/notes\/([^/]+)$/)?.[1] ?? 'dry-run',
+        ...requestBody,
+      };
+    }
+
     const response = await fetch(`${this.baseUrl}${endpoint}`, {
       ...options,
       headers: {
@@ -166,6 +181,16 @@ class SliteAPI {
     }
   }
 
+  // Link to a document in the release notes collection, without loading its
+  // content; null when there is no such document (yet)
+  async getDocumentUrl(title: string): Promise<string | null> {
+    const documents = await this.getDocumentsFromCollection();
+    const document = documents.notes.find(
+      (doc) => doc.title?.toLowerCase() === title.toLowerCase()
+    );
+    return document?.url ?? null;
+  }
+
   private parseDocumentMetadata(content: string): {
     release_status?: string;
     release_at?: string;
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { DeliveryLedger, DeliveryRecord } from './delivery-ledger';
+import { MemoryStorage } from '../storage/memory-storage';
+
+const LEASE_MS = 60 * 1000;
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+const details = { type: 'Issue', action: 'update' };
+
+function createLedger() {
+  const storage = new MemoryStorage<DeliveryRecord>();
+  const ledger = new DeliveryLedger(storage, {
+    leaseMs: LEASE_MS,
+    retentionMs: RETENTION_MS,
+  });
+  return { ledger, storage };
+}
+
+describe('DeliveryLedger', () => {
+  it('claims a delivery it has not seen before', async () => {
+    const { ledger } = createLedger();
+    const now = new Date('2025-01-10T09:00:00.000Z');
+
+    const claim = await ledger.claim('delivery-1', details, now);
+
+    expect(claim.status).toBe('new');
+    expect(claim.record).toMatchObject({
+      deliveryId: 'delivery-1',
+      status: 'processing',
+      attempts: 1,
+      leaseExpiresAt: '2025-01-10T09:01:00.000Z',
+    });
+  });
+
+  it('answers a completed delivery as a duplicate with its response', async () => {
+    const { ledger } = createLedger();
+    await ledger.claim('delivery-1', details);
+    await ledger.complete('delivery-1', { success: true });
+
+    const claim = await ledger.claim('delivery-1', details);
+
+    expect(claim.status).toBe('duplicate');
+    expect(claim.record.response).toEqual({ success: true });
+    expect(claim.record.leaseExpiresAt).toBeUndefined();
+  });
+
+  it('reports a delivery under an unexpired lease as in progress', async () => {
+    const { ledger } = createLedger();
+    const now = new Date('2025-01-10T09:00:00.000Z');
+    await ledger.claim('delivery-1', details, now);
+
+    const claim = await ledger.claim(
+      'delivery-1',
+      details,
+      new Date(now.getTime() + LEASE_MS - 1)
+    );
+
+    expect(claim.status).toBe('in_progress');
+    expect(claim.record.attempts).toBe(1);
+  });
+
+  it('only lets one of two concurrent first deliveries through', async () => {
+    const { ledger } = createLedger();
+
+    const claims = await Promise.all([
+      ledger.claim('delivery-1', details),
+      ledger.claim('delivery-1', details),
+    ]);
+
+    expect(claims.map((claim) => claim.status).sort()).toEqual([
+      'in_progress',
+      'new',
+    ]);
+  });
+
+  it('reclaims a delivery whose lease expired', async () => {
+    const { ledger } = createLedger();
+    const now = new Date('2025-01-10T09:00:00.000Z');
+    await ledger.claim('delivery-1', details, now);
+
+    const claim = await ledger.claim(
+      'delivery-1',
+      details,
+      new Date(now.getTime() + LEASE_MS + 1)
+    );
+
+    expect(claim.status).toBe('new');
+    expect(claim.record.attempts).toBe(2);
+  });
+
+  it('reclaims a failed delivery', async () => {
+    const { ledger, storage } = createLedger();
+    await ledger.claim('delivery-1', details);
+    await ledger.fail('delivery-1', 'Slite unavailable');
+
+    const claim = await ledger.claim('delivery-1', details);
+
+    expect(claim.status).toBe('new');
+    expect(claim.record.attempts).toBe(2);
+    expect((await storage.get('delivery-1'))?.status).toBe('processing');
+  });
+
+  it('prunes records older than the retention window', async () => {
+    const { ledger, storage } = createLedger();
+    const now = new Date('2025-01-10T09:00:00.000Z');
+    await storage.set('old', {
+      deliveryId: 'old',
+      type: 'Issue',
+      status: 'completed',
+      receivedAt: '2025-01-08T09:00:00.000Z',
+      completedAt: '2025-01-08T09:00:01.000Z',
+      attempts: 1,
+    });
+    await storage.set('recent', {
+      deliveryId: 'recent',
+      type: 'Issue',
+      status: 'failed',
+      receivedAt: '2025-01-09T10:00:00.000Z',
+      completedAt: '2025-01-09T10:00:01.000Z',
+      attempts: 1,
+    });
+
+    const pruned = await ledger.prune(now);
+
+    expect(pruned).toBe(1);
+    expect(await storage.get('old')).toBeNull();
+    expect(await storage.get('recent')).not.toBeNull();
+  });
+});
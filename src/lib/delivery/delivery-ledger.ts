@@ -0,0 +1,186 @@
+import { createDurableStorage, KeyValueStorage } from '../storage';
+import { createLogger } from '../logger';
+
+// Longer than the webhook route's maxDuration, so only a crashed attempt
+// outlives its lease
+const DEFAULT_LEASE_MS = 2 * 60 * 1000;
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type DeliveryStatus = 'processing' | 'completed' | 'failed';
+
+export interface DeliveryRecord {
+  deliveryId: string;
+  type: string;
+  action?: string;
+  status: DeliveryStatus;
+  receivedAt: string;
+  completedAt?: string;
+  attempts: number;
+  leaseExpiresAt?: string;
+  response?: unknown;
+  error?: string;
+}
+
+interface DeliveryLedgerOptions {
+  leaseMs: number;
+  retentionMs: number;
+}
+
+export type DeliveryClaim =
+  | { status: 'new'; record: DeliveryRecord }
+  | { status: 'duplicate'; record: DeliveryRecord }
+  | { status: 'in_progress'; record: DeliveryRecord };
+
+// Records every processed Linear delivery and its response, so retries of
+// a delivery we already handled can be answered without re-running flows
+export class DeliveryLedger {
+  private log = createLogger('delivery-ledger');
+
+  constructor(
+    private storage: KeyValueStorage<DeliveryRecord>,
+    private options: DeliveryLedgerOptions = {
+      leaseMs: DEFAULT_LEASE_MS,
+      retentionMs: DEFAULT_RETENTION_MS,
+    }
+  ) {}
+
+  async claim(
+    deliveryId: string,
+    details: { type: string; action?: string },
+    now = new Date()
+  ): Promise<DeliveryClaim> {
+    const record: DeliveryRecord = {
+      deliveryId,
+      type: details.type,
+      action: details.action,
+      status: 'processing',
+      receivedAt: now.toISOString(),
+      attempts: 1,
+      leaseExpiresAt: new Date(
+        now.getTime() + this.options.leaseMs
+      ).toISOString(),
+    };
+
+    // SET NX on kv, so of two concurrent first deliveries only one wins
+    if (await this.storage.setIfAbsent(deliveryId, record)) {
+      this.log.debug({ deliveryId }, 'Claimed delivery for processing');
+      return { status: 'new', record };
+    }
+
+    const existing = await this.storage.get(deliveryId);
+    if (!existing) {
+      // Removed between the two calls; let Linear's next retry claim it
+      return { status: 'in_progress', record };
+    }
+
+    if (existing.status === 'completed') {
+      this.log.info(
+        { deliveryId, completedAt: existing.completedAt },
+        'Delivery already processed, returning cached response'
+      );
+      return { status: 'duplicate', record: existing };
+    }
+
+    if (
+      existing.status === 'processing' &&
+      (!existing.leaseExpiresAt || existing.leaseExpiresAt > record.receivedAt)
+    ) {
+      this.log.warn(
+        { deliveryId, receivedAt: existing.receivedAt },
+        'Delivery is already being processed'
+      );
+      return { status: 'in_progress', record: existing };
+    }
+
+    // Retries of failed deliveries, and of attempts whose lease expired
+    // (e.g. the function timed out), are processed again. Like
+    // EventQueue.lease this is not atomic, but Linear spaces its retries
+    // minutes apart
+    const reclaimed: DeliveryRecord = {
+      ...record,
+      attempts: existing.attempts + 1,
+    };
+    await this.storage.set(deliveryId, reclaimed);
+
+    this.log.info(
+      {
+        deliveryId,
+        attempts: reclaimed.attempts,
+        previousStatus: existing.status,
+      },
+      'Reclaimed delivery for processing'
+    );
+
+    return { status: 'new', record: reclaimed };
+  }
+
+  async complete(deliveryId: string, response: unknown) {
+    await this.finish(deliveryId, { status: 'completed', response });
+  }
+
+  async fail(deliveryId: string, error: string, response?: unknown) {
+    await this.finish(deliveryId, { status: 'failed', error, response });
+  }
+
+  async get(deliveryId: string): Promise<DeliveryRecord | null> {
+    return this.storage.get(deliveryId);
+  }
+
+  async list(): Promise<DeliveryRecord[]> {
+    const records = await this.storage.list();
+    return records.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+  }
+
+  // Drops records older than the retention window; Linear stops retrying a
+  // delivery long before that
+  async prune(now = new Date()): Promise<number> {
+    const cutoff = new Date(
+      now.getTime() - this.options.retentionMs
+    ).toISOString();
+    const expired = (await this.storage.list()).filter(
+      (record) => (record.completedAt || record.receivedAt) < cutoff
+    );
+
+    for (const record of expired) {
+      await this.storage.delete(record.deliveryId);
+    }
+
+    if (expired.length > 0) {
+      this.log.info(
+        { pruned: expired.length, cutoff },
+        'Pruned expired delivery records'
+      );
+    }
+    return expired.length;
+  }
+
+  private async finish(
+    deliveryId: string,
+    outcome: Pick<DeliveryRecord, 'status' | 'response' | 'error'>
+  ) {
+    const existing = await this.storage.get(deliveryId);
+    if (!existing) {
+      this.log.warn(
+        { deliveryId, status: outcome.status },
+        'Finishing a delivery that was never claimed'
+      );
+      return;
+    }
+
+    await this.storage.set(deliveryId, {
+      ...existing,
+      ...outcome,
+      leaseExpiresAt: undefined,
+      completedAt: new Date().toISOString(),
+    });
+
+    this.log.debug(
+      { deliveryId, status: outcome.status },
+      'Recorded delivery outcome'
+    );
+  }
+}
+
+export const deliveryLedger = new DeliveryLedger(
+  createDurableStorage<DeliveryRecord>('deliveries')
+);
@@ -0,0 +1,207 @@
+import { eventQueue, QueuedEvent, DeadLetter } from './event-queue';
+import { processQueuedEvent } from './event-worker';
+import { processLinearWebhook } from '../webhook-processors';
+import { createLogger } from '../logger';
+import { DryRunAction } from './dry-run';
+
+// Keep a single replay request well inside the function time limit
+const MAX_REPLAY_BATCH = 25;
+
+export type StoredDeliveryOutcome =
+  'pending' | 'processing' | 'completed' | 'dead-lettered';
+
+export interface StoredDeliverySummary {
+  eventId: string;
+  type: string;
+  entityType: string;
+  action: string;
+  issueIdentifier?: string;
+  receivedAt: string;
+  attempts: number;
+  outcome: StoredDeliveryOutcome;
+  lastError?: string;
+  // Per-flow results of the last attempt, for issue events
+  flows?: unknown;
+  // Writes skipped by DRY_RUN / DRY_RUN_FLOWS in the last attempt
+  dryRunActions?: DryRunAction[];
+}
+
+export interface DeliveryFilter {
+  eventId?: string;
+  from?: string;
+  to?: string;
+  outcome?: StoredDeliveryOutcome;
+}
+
+// Pending and processing events are the worker's; replaying them would run
+// their flows twice
+export const REPLAYABLE_OUTCOMES = ['completed', 'dead-lettered'] as const;
+
+export type ReplayableOutcome = (typeof REPLAYABLE_OUTCOMES)[number];
+
+export interface ReplayFilter extends Omit<DeliveryFilter, 'outcome'> {
+  // Defaults to both replayable outcomes
+  outcome?: ReplayableOutcome;
+}
+
+type StoredDelivery = {
+  event: QueuedEvent | DeadLetter;
+  outcome: StoredDeliveryOutcome;
+};
+
+async function loadStoredDeliveries(): Promise<StoredDelivery[]> {
+  const [events, deadLetters] = await Promise.all([
+    eventQueue.list(),
+    eventQueue.listDeadLetters(),
+  ]);
+
+  return [
+    ...events.map((event) => ({
+      event,
+      outcome: event.status as StoredDeliveryOutcome,
+    })),
+    ...deadLetters.map((event) => ({
+      event,
+      outcome: 'dead-lettered' as const,
+    })),
+  ].sort((a, b) => a.event.enqueuedAt.localeCompare(b.event.enqueuedAt));
+}
+
+function matchesFilter(delivery: StoredDelivery, filter: DeliveryFilter) {
+  const { event, outcome } = delivery;
+  if (filter.eventId && event.id !== filter.eventId) {
+    return false;
+  }
+  if (filter.from && event.enqueuedAt < filter.from) {
+    return false;
+  }
+  if (filter.to && event.enqueuedAt > filter.to) {
+    return false;
+  }
+  if (filter.outcome && outcome !== filter.outcome) {
+    return false;
+  }
+  return true;
+}
+
+function hasFlows(result: unknown): result is { flows: unknown } {
+  return !!result && typeof result === 'object' && 'flows' in result;
+}
+
+function summarize({ event, outcome }: StoredDelivery): StoredDeliverySummary {
+  return {
+    eventId: event.id,
+    type: event.type,
+    entityType: event.payload.type,
+    action: event.payload.action,
+    issueIdentifier:
+      event.payload.type === 'Issue'
+        ? event.payload.data.identifier
+        : undefined,
+    receivedAt: event.enqueuedAt,
+    attempts: event.attempts,
+    outcome,
+    lastError: event.lastError,
+    ...(hasFlows(event.result) && { flows: event.result.flows }),
+    ...(event.dryRunActions && { dryRunActions: event.dryRunActions }),
+  };
+}
+
+export async function listStoredDeliveries(
+  filter: DeliveryFilter = {}
+): Promise<StoredDeliverySummary[]> {
+  const deliveries = await loadStoredDeliveries();
+  return deliveries
+    .filter((delivery) => matchesFilter(delivery, filter))
+    .map(summarize);
+}
+
+// Run completed and dead-lettered events again. A replay is requeued and
+// processed like a worker attempt (leased, with its result, completed flows
+// and dead-lettering recorded on the event); with dryRun the result only
+// lists the flows that would fire
+export async function replayDeliveries(
+  filter: ReplayFilter,
+  options: { dryRun?: boolean } = {}
+) {
+  const log = createLogger('delivery-replay', { dryRun: !!options.dryRun });
+  const outcomes: readonly StoredDeliveryOutcome[] = filter.outcome
+    ? [filter.outcome]
+    : REPLAYABLE_OUTCOMES;
+  const selected = (await loadStoredDeliveries()).filter((delivery) =>
+    matchesFilter(delivery, { ...filter, outcome: undefined })
+  );
+  const matching = selected.filter((delivery) =>
+    outcomes.includes(delivery.outcome)
+  );
+  const batch = matching.slice(0, MAX_REPLAY_BATCH);
+
+  log.info(
+    {
+      filter,
+      matchingCount: matching.length,
+      batchSize: batch.length,
+      notReplayable: selected.length - matching.length,
+    },
+    'Replaying stored deliveries'
+  );
+
+  const replayed = [];
+  for (const delivery of batch) {
+    const { event } = delivery;
+    try {
+      if (options.dryRun) {
+        const result = await processLinearWebhook(
+          { type: event.type, payload: event.payload, headers: event.headers },
+          { dryRun: true }
+        );
+        replayed.push({
+          ...summarize(delivery),
+          success: result.success !== false,
+          result,
+        });
+        continue;
+      }
+
+      if (!(await eventQueue.requeue(event.id))) {
+        replayed.push({
+          ...summarize(delivery),
+          success: false,
+          error: 'Event is queued or being processed, not replayed',
+        });
+        continue;
+      }
+
+      const { outcome, result } = await processQueuedEvent(event.id);
+      replayed.push({
+        ...summarize(delivery),
+        success: outcome === 'completed',
+        replayOutcome: outcome,
+        result,
+      });
+    } catch (error) {
+      log.error(
+        {
+          eventId: event.id,
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        },
+        'Error replaying delivery'
+      );
+      replayed.push({
+        ...summarize(delivery),
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return {
+    dryRun: !!options.dryRun,
+    replayed,
+    skipped: matching.length - batch.length,
+    // Matched the filter but were pending or processing (or of another
+    // outcome than the one asked for)
+    notReplayable: selected.length - matching.length,
+  };
+}
@@ -0,0 +1,94 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createLogger } from '../logger';
+
+export type DryRunService =
+  'linear' | 'slite' | 'slack' | 'slack-api' | 'teams' | 'webhook' | 'email';
+
+export interface DryRunAction {
+  service: DryRunService;
+  operation: string;
+  flow?: string;
+  request: unknown;
+}
+
+interface DryRunScope {
+  // Innermost flow last; a flow listed in DRY_RUN_FLOWS covers nested ones
+  flows: string[];
+  actions: DryRunAction[];
+}
+
+// Skips outbound writes (Slite documents, notifications, Linear mutations)
+// when DRY_RUN=true, or for the flows listed in DRY_RUN_FLOWS. Reads still
+// happen so flows see real data; the skipped requests are logged and
+// collected for the caller of collect() (the event worker stores them with
+// the queued event)
+class DryRun {
+  private enabled = process.env.DRY_RUN === 'true';
+  private flows = new Set(
+    (process.env.DRY_RUN_FLOWS || '')
+      .split(',')
+      .map((flow) => flow.trim())
+      .filter(Boolean)
+  );
+  private scope = new AsyncLocalStorage<DryRunScope>();
+  private log = createLogger('dry-run');
+
+  // DRY_RUN=true, where no flow writes anything
+  get global() {
+    return this.enabled;
+  }
+
+  // DRY_RUN=true or DRY_RUN_FLOWS, where the webhook route returns the
+  // skipped actions
+  get configured() {
+    return this.enabled || this.flows.size > 0;
+  }
+
+  // Runs fn and returns every action that was skipped inside it
+  async collect<T>(fn: () => Promise<T>) {
+    const scope: DryRunScope = { flows: [], actions: [] };
+    const result = await this.scope.run(scope, fn);
+    return { result, actions: scope.actions };
+  }
+
+  // Marks side effects inside fn as belonging to a flow, for DRY_RUN_FLOWS
+  runFlow<T>(flow: string, fn: () => Promise<T>): Promise<T> {
+    const parent = this.scope.getStore();
+    return this.scope.run(
+      {
+        flows: [...(parent?.flows ?? []), flow],
+        actions: parent?.actions ?? [],
+      },
+      fn
+    );
+  }
+
+  // Whether writes made from the current flow are skipped
+  get active() {
+    const flows = this.scope.getStore()?.flows ?? [];
+    return this.enabled || flows.some((name) => this.flows.has(name));
+  }
+
+  // Returns true when the caller must not perform the request
+  intercept(service: DryRunService, operation: string, request: unknown) {
+    if (!this.active) {
+      return false;
+    }
+
+    const scope = this.scope.getStore();
+    const flows = scope?.flows ?? [];
+    const flow = flows[flows.length - 1];
+
+    const action: DryRunAction = {
+      service,
+      operation,
+      ...(flow && { flow }),
+      request,
+    };
+    scope?.actions.push(action);
+    this.log.info(action, `Dry run: skipped ${service} ${operation}`);
+    return true;
+  }
+}
+
+export const dryRun = new DryRun();
@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DeadLetter, EventLease, EventQueue, QueuedEvent } from './event-queue';
+import { MemoryStorage } from '../storage/memory-storage';
+import { LinearWebhookPayload } from '../types/linear-webhook';
+
+const BASE_DELAY_MS = 1000;
+const LEASE_MS = 60 * 1000;
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-01-10T09:00:00.000Z');
+
+const payload = {
+  action: 'update',
+  type: 'Issue',
+  data: { id: 'issue-1' },
+  organizationId: 'org-1',
+  webhookId: 'webhook-1',
+  webhookTimestamp: NOW.getTime(),
+} as LinearWebhookPayload;
+
+function createQueue(maxAttempts = 3) {
+  const events = new MemoryStorage<QueuedEvent>();
+  const deadLetters = new MemoryStorage<DeadLetter>();
+  const leases = new MemoryStorage<EventLease>();
+  const queue = new EventQueue(events, deadLetters, leases, {
+    maxAttempts,
+    baseDelayMs: BASE_DELAY_MS,
+    leaseMs: LEASE_MS,
+    retentionMs: RETENTION_MS,
+  });
+  return { queue, events, deadLetters, leases };
+}
+
+async function failAttempt(queue: EventQueue, error = 'boom') {
+  const leased = await queue.lease('event-1', new Date());
+  expect(leased).not.toBeNull();
+  return queue.fail(leased!, error, new Date());
+}
+
+describe('EventQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('makes an enqueued event due immediately', async () => {
+    const { queue } = createQueue();
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+
+    const due = await queue.dueEvents(NOW);
+
+    expect(due.map((event) => event.id)).toEqual(['event-1']);
+    expect(due[0]).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+
+  it('does not lease an event twice while the lease holds', async () => {
+    const { queue } = createQueue();
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+
+    const first = await queue.lease('event-1', NOW);
+    const second = await queue.lease(
+      'event-1',
+      new Date(NOW.getTime() + LEASE_MS - 1)
+    );
+
+    expect(first?.attempts).toBe(1);
+    expect(second).toBeNull();
+    expect(await queue.dueEvents(NOW)).toEqual([]);
+  });
+
+  it('leases a due event to only one of two concurrent workers', async () => {
+    const { queue } = createQueue();
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+
+    const leased = await Promise.all([
+      queue.lease('event-1', NOW),
+      queue.lease('event-1', NOW),
+    ]);
+
+    expect(leased.filter(Boolean)).toHaveLength(1);
+    expect((await queue.get('event-1'))?.attempts).toBe(1);
+  });
+
+  it('does not re-run an attempt when a stale event is written back', async () => {
+    const { queue, events } = createQueue();
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+    const stale = await queue.get('event-1');
+    const leased = await queue.lease('event-1', NOW);
+    await queue.fail(leased!, 'boom', NOW);
+    vi.setSystemTime(NOW.getTime() + BASE_DELAY_MS);
+
+    // A slow worker writes back the event as it read it before the lease
+    await events.set('event-1', stale!);
+
+    expect(await queue.lease('event-1', new Date())).toBeNull();
+  });
+
+  it('lets a delivery queued again start over', async () => {
+    const { queue, leases } = createQueue();
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+    await queue.lease('event-1', NOW);
+
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+    const leased = await queue.lease('event-1', NOW);
+
+    expect(leased?.attempts).toBe(1);
+    expect(await leases.list()).toHaveLength(1);
+  });
+
+  it('makes an event due again once its lease expires', async () => {
+    const { queue } = createQueue();
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+    await queue.lease('event-1', NOW);
+
+    const expiry = new Date(NOW.getTime() + LEASE_MS);
+    const due = await queue.dueEvents(expiry);
+    const leased = await queue.lease('event-1', expiry);
+
+    expect(due.map((event) => event.id)).toEqual(['event-1']);
+    expect(leased?.attempts).toBe(2);
+  });
+
+  it('backs off exponentially between failed attempts', async () => {
+    const { queue } = createQueue(5);
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const failedAt = Date.now();
+      expect(await failAttempt(queue)).toBe('retrying');
+
+      const event = await queue.get('event-1');
+      const nextAttemptAt = new Date(event!.nextAttemptAt).getTime();
+      delays.push(nextAttemptAt - failedAt);
+
+      expect(await queue.dueEvents(new Date(nextAttemptAt - 1))).toEqual([]);
+      vi.setSystemTime(nextAttemptAt);
+    }
+
+    expect(delays).toEqual([
+      BASE_DELAY_MS,
+      2 * BASE_DELAY_MS,
+      4 * BASE_DELAY_MS,
+    ]);
+    const event = await queue.get('event-1');
+    expect(event).toMatchObject({ status: 'pending', lastError: 'boom' });
+    expect(event?.history.map((attempt) => attempt.attempt)).toEqual([1, 2, 3]);
+  });
+
+  it('dead-letters an event after its last attempt fails', async () => {
+    const { queue } = createQueue(2);
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+
+    expect(await failAttempt(queue, 'first')).toBe('retrying');
+    vi.setSystemTime(NOW.getTime() + BASE_DELAY_MS);
+    expect(await failAttempt(queue, 'second')).toBe('dead-lettered');
+
+    expect(await queue.get('event-1')).toBeNull();
+    const [deadLetter] = await queue.listDeadLetters();
+    expect(deadLetter).toMatchObject({
+      id: 'event-1',
+      attempts: 2,
+      lastError: 'second',
+    });
+    expect(deadLetter.history.map((attempt) => attempt.error)).toEqual([
+      'first',
+      'second',
+    ]);
+  });
+
+  it('keeps completed flows when an event is dead-lettered', async () => {
+    const { queue } = createQueue(1);
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+    const leased = await queue.lease('event-1', NOW);
+
+    await queue.fail(
+      { ...leased!, completedFlows: ['slite-note'] },
+      'boom',
+      NOW
+    );
+
+    const [deadLetter] = await queue.listDeadLetters();
+    expect(deadLetter.completedFlows).toEqual(['slite-note']);
+  });
+
+  it('does not lease a completed event', async () => {
+    const { queue, leases } = createQueue();
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+    const leased = await queue.lease('event-1', NOW);
+    await queue.complete(leased!, { success: true }, NOW);
+
+    expect(await queue.lease('event-1', NOW)).toBeNull();
+    expect(await queue.dueEvents(NOW)).toEqual([]);
+    expect(await leases.list()).toEqual([]);
+  });
+
+  it('requeues a dead letter with the flows it already executed', async () => {
+    const { queue } = createQueue(1);
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+    const leased = await queue.lease('event-1', NOW);
+    await queue.fail(
+      { ...leased!, completedFlows: ['release'] },
+      'Slack unavailable',
+      NOW
+    );
+
+    const requeued = await queue.requeue('event-1');
+    const replay = await queue.lease('event-1', NOW);
+
+    expect(requeued).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      completedFlows: ['release'],
+    });
+    expect(replay?.attempts).toBe(2);
+    expect(await queue.listDeadLetters()).toEqual([]);
+  });
+
+  it('requeues a completed event to run all of its flows', async () => {
+    const { queue } = createQueue();
+    await queue.enqueue({ id: 'event-1', type: 'issue', payload, headers: {} });
+    const leased = await queue.lease('event-1', NOW);
+    await queue.complete(
+      { ...leased!, completedFlows: ['release'] },
+      { success: true },
+      NOW
+    );
+
+    const requeued = await queue.requeue('event-1');
+
+    expect(requeued?.status).toBe('pending');
+    expect(requeued?.completedFlows).toBeUndefined();
+    expect((await queue.lease('event-1', NOW))?.attempts).toBe(2);
+  });
+
+  it('does not requeue an event the worker has not finished', async () => {
+    const { queue } = createQueue();
+    await queue.enqueue({ id: 'pending', type: 'issue', payload, headers: {} });
+    await queue.enqueue({ id: 'leased', type: 'issue', payload, headers: {} });
+    await queue.lease('leased', NOW);
+
+    expect(await queue.requeue('pending')).toBeNull();
+    expect(await queue.requeue('leased')).toBeNull();
+    expect(await queue.requeue('unknown')).toBeNull();
+    expect((await queue.get('leased'))?.status).toBe('processing');
+  });
+
+  it('prunes completed events older than the retention window', async () => {
+    const { queue } = createQueue(1);
+    for (const id of ['old', 'pending', 'dead']) {
+      await queue.enqueue({ id, type: 'issue', payload, headers: {} });
+    }
+    const old = await queue.lease('old', NOW);
+    await queue.complete(old!, { success: true }, NOW);
+    const dead = await queue.lease('dead', NOW);
+    await queue.fail(dead!, 'boom', NOW);
+
+    expect(await queue.prune(new Date(NOW.getTime() + RETENTION_MS))).toBe(0);
+    const pruned = await queue.prune(
+      new Date(NOW.getTime() + RETENTION_MS + 1)
+    );
+
+    expect(pruned).toBe(1);
+    expect((await queue.list()).map((event) => event.id)).toEqual(['pending']);
+    expect(await queue.listDeadLetters()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,395 @@
+import { LinearWebhookPayload } from '../types/linear-webhook';
+import { DryRunAction } from './dry-run';
+import { createDurableStorage, KeyValueStorage } from '../storage';
+import { createLogger } from '../logger';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 30 * 1000;
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type QueuedEventStatus = 'pending' | 'processing' | 'completed';
+
+export interface QueuedEventAttempt {
+  attempt: number;
+  startedAt: string;
+  finishedAt: string;
+  error?: string;
+}
+
+export interface QueuedEvent {
+  id: string;
+  type: string;
+  payload: LinearWebhookPayload;
+  headers: Record<string, string>;
+  status: QueuedEventStatus;
+  attempts: number;
+  enqueuedAt: string;
+  nextAttemptAt: string;
+  leaseExpiresAt?: string;
+  completedAt?: string;
+  lastError?: string;
+  result?: unknown;
+  // Flows that already executed, skipped when the event is retried
+  completedFlows?: string[];
+  // Writes skipped by DRY_RUN / DRY_RUN_FLOWS in the last attempt
+  dryRunActions?: DryRunAction[];
+  history: QueuedEventAttempt[];
+}
+
+export interface DeadLetter extends Omit<QueuedEvent, 'status'> {
+  deadLetteredAt: string;
+}
+
+// Marker that one attempt of an event was claimed by a worker
+export interface EventLease {
+  eventId: string;
+  attempt: number;
+  leasedAt: string;
+}
+
+interface EventQueueOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  leaseMs: number;
+  // How long completed events are kept for /api/admin/deliveries
+  retentionMs: number;
+}
+
+function leaseKey(eventId: string, attempt: number) {
+  return `${eventId}:${attempt}`;
+}
+
+function readIntFromEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Persists webhook events so they can be acknowledged quickly and processed
+// (and retried with exponential backoff) outside of the request
+export class EventQueue {
+  private log = createLogger('event-queue');
+
+  constructor(
+    private events: KeyValueStorage<QueuedEvent>,
+    private deadLetters: KeyValueStorage<DeadLetter>,
+    private leases: KeyValueStorage<EventLease>,
+    private options: EventQueueOptions
+  ) {}
+
+  async enqueue(
+    event: Pick<QueuedEvent, 'id' | 'type' | 'payload' | 'headers'>
+  ): Promise<QueuedEvent> {
+    // A delivery Linear retries after a failure is queued again from
+    // scratch; its earlier attempts must not block the new ones
+    const existing = await this.events.get(event.id);
+    if (existing) {
+      await this.releaseLeases(existing);
+    }
+
+    const now = new Date().toISOString();
+    const queued: QueuedEvent = {
+      ...event,
+      status: 'pending',
+      attempts: 0,
+      enqueuedAt: now,
+      nextAttemptAt: now,
+      history: [],
+    };
+
+    await this.events.set(event.id, queued);
+    this.log.info(
+      { eventId: event.id, type: event.type, action: event.payload.action },
+      'Event enqueued'
+    );
+
+    return queued;
+  }
+
+  async get(eventId: string): Promise<QueuedEvent | null> {
+    return this.events.get(eventId);
+  }
+
+  async list(): Promise<QueuedEvent[]> {
+    const events = await this.events.list();
+    return events.sort((a, b) => a.enqueuedAt.localeCompare(b.enqueuedAt));
+  }
+
+  async listDeadLetters(): Promise<DeadLetter[]> {
+    const deadLetters = await this.deadLetters.list();
+    return deadLetters.sort((a, b) =>
+      b.deadLetteredAt.localeCompare(a.deadLetteredAt)
+    );
+  }
+
+  // Puts a completed or dead-lettered event back in the queue so an admin
+  // replay runs through lease() like any other attempt. Flows a dead letter
+  // already executed stay skipped; a completed event runs all its flows
+  // again. Returns null for events that are pending or being processed
+  async requeue(eventId: string): Promise<QueuedEvent | null> {
+    const now = new Date().toISOString();
+    const event = await this.events.get(eventId);
+
+    if (event) {
+      if (event.status !== 'completed') {
+        return null;
+      }
+      const requeued: QueuedEvent = {
+        ...event,
+        status: 'pending',
+        nextAttemptAt: now,
+        completedAt: undefined,
+        completedFlows: undefined,
+      };
+      await this.events.set(eventId, requeued);
+      this.log.info({ eventId }, 'Requeued completed event for replay');
+      return requeued;
+    }
+
+    const deadLetter = await this.deadLetters.get(eventId);
+    if (!deadLetter) {
+      return null;
+    }
+
+    const requeued: QueuedEvent = {
+      id: deadLetter.id,
+      type: deadLetter.type,
+      payload: deadLetter.payload,
+      headers: deadLetter.headers,
+      status: 'pending',
+      attempts: deadLetter.attempts,
+      enqueuedAt: deadLetter.enqueuedAt,
+      nextAttemptAt: now,
+      lastError: deadLetter.lastError,
+      result: deadLetter.result,
+      completedFlows: deadLetter.completedFlows,
+      dryRunActions: deadLetter.dryRunActions,
+      history: deadLetter.history,
+    };
+    await this.events.set(eventId, requeued);
+    await this.deadLetters.delete(eventId);
+    this.log.info({ eventId }, 'Requeued dead-lettered event for replay');
+    return requeued;
+  }
+
+  // Pending events whose backoff has elapsed, plus events whose worker lease
+  // expired (e.g. the function timed out mid-processing)
+  async dueEvents(now = new Date()): Promise<QueuedEvent[]> {
+    const events = await this.list();
+    const nowIso = now.toISOString();
+
+    return events.filter(
+      (event) =>
+        (event.status === 'pending' && event.nextAttemptAt <= nowIso) ||
+        (event.status === 'processing' &&
+          !!event.leaseExpiresAt &&
+          event.leaseExpiresAt <= nowIso)
+    );
+  }
+
+  // Marks the event as being worked on; returns null if it is not claimable.
+  // Each attempt is claimed with set-if-absent on its own lease key, so of
+  // two workers that read the same due event (the route's after() and a cron
+  // drain) only one runs it
+  async lease(eventId: string, now = new Date()): Promise<QueuedEvent | null> {
+    const event = await this.events.get(eventId);
+    if (!event || event.status === 'completed') {
+      return null;
+    }
+
+    if (
+      event.status === 'processing' &&
+      event.leaseExpiresAt &&
+      event.leaseExpiresAt > now.toISOString()
+    ) {
+      return null;
+    }
+
+    const attempt = event.attempts + 1;
+    const claimed = await this.leases.setIfAbsent(leaseKey(eventId, attempt), {
+      eventId,
+      attempt,
+      leasedAt: now.toISOString(),
+    });
+    if (!claimed) {
+      this.log.debug(
+        { eventId, attempt },
+        'Event attempt already leased by another worker'
+      );
+      return null;
+    }
+
+    const leased: QueuedEvent = {
+      ...event,
+      status: 'processing',
+      attempts: attempt,
+      leaseExpiresAt: new Date(
+        now.getTime() + this.options.leaseMs
+      ).toISOString(),
+    };
+    try {
+      await this.events.set(eventId, leased);
+    } catch (error) {
+      // Otherwise the claimed attempt would block the event for good
+      await this.leases.delete(leaseKey(eventId, attempt));
+      throw error;
+    }
+
+    return leased;
+  }
+
+  async complete(event: QueuedEvent, result: unknown, startedAt: Date) {
+    const finishedAt = new Date().toISOString();
+    await this.events.set(event.id, {
+      ...event,
+      status: 'completed',
+      completedAt: finishedAt,
+      leaseExpiresAt: undefined,
+      lastError: undefined,
+      result,
+      history: [
+        ...event.history,
+        {
+          attempt: event.attempts,
+          startedAt: startedAt.toISOString(),
+          finishedAt,
+        },
+      ],
+    });
+
+    await this.releaseLeases(event);
+
+    this.log.info(
+      { eventId: event.id, attempts: event.attempts },
+      'Event processed'
+    );
+  }
+
+  // Schedules the next attempt with exponential backoff, or moves the event
+  // to the dead-letter store once maxAttempts is exhausted
+  async fail(
+    event: QueuedEvent,
+    error: string,
+    startedAt: Date,
+    result?: unknown
+  ): Promise<'retrying' | 'dead-lettered'> {
+    const finishedAt = new Date();
+    const history = [
+      ...event.history,
+      {
+        attempt: event.attempts,
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        error,
+      },
+    ];
+
+    if (event.attempts >= this.options.maxAttempts) {
+      const deadLetter: DeadLetter = {
+        id: event.id,
+        type: event.type,
+        payload: event.payload,
+        headers: event.headers,
+        attempts: event.attempts,
+        enqueuedAt: event.enqueuedAt,
+        nextAttemptAt: event.nextAttemptAt,
+        lastError: error,
+        result,
+        completedFlows: event.completedFlows,
+        dryRunActions: event.dryRunActions,
+        history,
+        deadLetteredAt: finishedAt.toISOString(),
+      };
+
+      await this.deadLetters.set(event.id, deadLetter);
+      await this.events.delete(event.id);
+      await this.releaseLeases(event);
+
+      this.log.error(
+        { eventId: event.id, attempts: event.attempts, error },
+        'Event exhausted its retries, moved to dead-letter store'
+      );
+      return 'dead-lettered';
+    }
+
+    const delayMs = this.options.baseDelayMs * 2 ** (event.attempts - 1);
+    const nextAttemptAt = new Date(finishedAt.getTime() + delayMs);
+
+    await this.events.set(event.id, {
+      ...event,
+      status: 'pending',
+      leaseExpiresAt: undefined,
+      nextAttemptAt: nextAttemptAt.toISOString(),
+      lastError: error,
+      result,
+      history,
+    });
+
+    this.log.warn(
+      {
+        eventId: event.id,
+        attempts: event.attempts,
+        maxAttempts: this.options.maxAttempts,
+        nextAttemptAt: nextAttemptAt.toISOString(),
+        error,
+      },
+      'Event processing failed, retry scheduled'
+    );
+    return 'retrying';
+  }
+
+  // Drops completed events older than the retention window, so listing the
+  // queue does not read every payload ever received. Dead letters are kept
+  // until they are replayed
+  async prune(now = new Date()): Promise<number> {
+    const cutoff = new Date(
+      now.getTime() - this.options.retentionMs
+    ).toISOString();
+    const expired = (await this.events.list()).filter(
+      (event) =>
+        event.status === 'completed' &&
+        !!event.completedAt &&
+        event.completedAt < cutoff
+    );
+
+    for (const event of expired) {
+      await this.events.delete(event.id);
+    }
+
+    if (expired.length > 0) {
+      this.log.info(
+        { pruned: expired.length, cutoff },
+        'Pruned completed events'
+      );
+    }
+    return expired.length;
+  }
+
+  // Lease keys of every attempt so far, including ones whose worker crashed
+  private async releaseLeases(event: QueuedEvent) {
+    for (let attempt = 1; attempt <= event.attempts; attempt++) {
+      await this.leases.delete(leaseKey(event.id, attempt));
+    }
+  }
+}
+
+export const eventQueue = new EventQueue(
+  createDurableStorage<QueuedEvent>('events'),
+  createDurableStorage<DeadLetter>('dead-letters'),
+  createDurableStorage<EventLease>('event-leases'),
+  {
+    maxAttempts: readIntFromEnv(
+      'EVENT_QUEUE_MAX_ATTEMPTS',
+      DEFAULT_MAX_ATTEMPTS
+    ),
+    baseDelayMs: readIntFromEnv(
+      'EVENT_QUEUE_BASE_DELAY_MS',
+      DEFAULT_BASE_DELAY_MS
+    ),
+    leaseMs: DEFAULT_LEASE_MS,
+    retentionMs: readIntFromEnv(
+      'EVENT_QUEUE_RETENTION_MS',
+      DEFAULT_RETENTION_MS
+    ),
+  }
+);
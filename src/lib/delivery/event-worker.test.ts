@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { processQueuedEvent } from './event-worker';
+import { eventQueue } from './event-queue';
+import { processLinearWebhook } from '../webhook-processors';
+import { LinearWebhookPayload } from '../types/linear-webhook';
+import { FlowResult } from '../webhook-processors/issue/flows/types';
+
+vi.mock('../webhook-processors', () => ({ processLinearWebhook: vi.fn() }));
+
+const payload = {
+  action: 'update',
+  type: 'Issue',
+  data: { id: 'issue-1' },
+  organizationId: 'org-1',
+  webhookId: 'webhook-1',
+  webhookTimestamp: 1736499600000,
+} as LinearWebhookPayload;
+
+const issueResult = {
+  action: 'update' as const,
+  issueId: 'issue-1',
+  hasChanges: true,
+  changeTypes: ['status'],
+};
+
+const partialFailure = {
+  ...issueResult,
+  success: false,
+  error: 'Issue flows failed: notification-rules',
+  flows: [
+    {
+      flow: 'notification-rules',
+      status: 'failed',
+      sideEffects: [
+        {
+          service: 'slack',
+          operation: 'notify',
+          flow: 'qa',
+          status: 'performed',
+        },
+        {
+          service: 'slack',
+          operation: 'notify',
+          flow: 'leads',
+          status: 'failed',
+          retryable: true,
+        },
+        {
+          service: 'teams',
+          operation: 'notify',
+          flow: 'managers',
+          status: 'failed',
+          retryable: false,
+        },
+      ],
+    },
+    { flow: 'release', status: 'executed', sideEffects: [] },
+  ] satisfies FlowResult[],
+};
+
+describe('processQueuedEvent', () => {
+  afterEach(() => {
+    vi.mocked(processLinearWebhook).mockReset();
+  });
+
+  it('retries an event with only the nested flows that failed retryably', async () => {
+    await eventQueue.enqueue({
+      id: 'worker-1',
+      type: 'issue',
+      payload,
+      headers: {},
+    });
+    vi.mocked(processLinearWebhook).mockResolvedValueOnce(partialFailure);
+
+    const { outcome } = await processQueuedEvent('worker-1');
+
+    expect(outcome).toBe('retrying');
+    expect((await eventQueue.get('worker-1'))?.completedFlows?.sort()).toEqual([
+      'managers',
+      'qa',
+      'release',
+    ]);
+  });
+
+  it('passes the completed flows to the next attempt', async () => {
+    await eventQueue.enqueue({
+      id: 'worker-2',
+      type: 'issue',
+      payload,
+      headers: {},
+    });
+    vi.mocked(processLinearWebhook)
+      .mockResolvedValueOnce(partialFailure)
+      .mockResolvedValueOnce({ ...issueResult, success: true, flows: [] });
+
+    await processQueuedEvent('worker-2');
+    const { outcome } = await processQueuedEvent('worker-2');
+
+    expect(outcome).toBe('completed');
+    expect(vi.mocked(processLinearWebhook).mock.lastCall?.[1]).toMatchObject({
+      completedFlows: expect.arrayContaining(['qa', 'release', 'managers']),
+    });
+  });
+});
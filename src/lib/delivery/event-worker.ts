@@ -0,0 +1,141 @@
+import { eventQueue, QueuedEvent } from './event-queue';
+import { processLinearWebhook } from '../webhook-processors';
+import { linearApi } from '../api/linear-api';
+import { createLogger } from '../logger';
+import { dryRun, DryRunAction } from './dry-run';
+import {
+  FlowResult,
+  FlowSideEffect,
+} from '../webhook-processors/issue/flows/types';
+
+const DEFAULT_DRAIN_LIMIT = 10;
+
+export type EventProcessingOutcome =
+  'completed' | 'retrying' | 'dead-lettered' | 'skipped';
+
+export async function processQueuedEvent(eventId: string): Promise<{
+  eventId: string;
+  outcome: EventProcessingOutcome;
+  result?: unknown;
+  dryRunActions?: DryRunAction[];
+}> {
+  const log = createLogger('event-worker', { eventId });
+
+  const event = await eventQueue.lease(eventId);
+  if (!event) {
+    log.debug('Event is not claimable (completed or leased), skipping');
+    return { eventId, outcome: 'skipped' };
+  }
+
+  const startedAt = new Date();
+
+  try {
+    const { result, actions } = await dryRun.collect(() =>
+      processLinearWebhook(
+        { type: event.type, payload: event.payload, headers: event.headers },
+        { completedFlows: event.completedFlows }
+      )
+    );
+    const dryRunActions = actions.length > 0 ? actions : undefined;
+
+    log.info(
+      { linearCache: linearApi.getCacheStats() },
+      'Linear cache hit/miss counts'
+    );
+
+    // Processors report handled failures via success: false
+    if (result.success === false) {
+      const error =
+        'error' in result && result.error
+          ? String(result.error)
+          : 'Processing reported failure';
+      const outcome = await eventQueue.fail(
+        {
+          ...event,
+          completedFlows: executedFlows(event, result),
+          dryRunActions,
+        },
+        error,
+        startedAt,
+        result
+      );
+      return { eventId, outcome, result, dryRunActions };
+    }
+
+    await eventQueue.complete({ ...event, dryRunActions }, result, startedAt);
+    return { eventId, outcome: 'completed', result, dryRunActions };
+  } catch (error) {
+    log.error(
+      {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        attempts: event.attempts,
+      },
+      'Error processing queued event'
+    );
+
+    const outcome = await eventQueue.fail(
+      event,
+      error instanceof Error ? error.message : String(error),
+      startedAt
+    );
+    return { eventId, outcome };
+  }
+}
+
+// Flows that have executed in this or an earlier attempt, so a retry only
+// runs the flows that failed. Of a failed flow, the nested flows (e.g.
+// notification rules) whose side effects all went through count as executed
+function executedFlows(event: QueuedEvent, result: object) {
+  const completed = new Set(event.completedFlows);
+  if ('flows' in result && Array.isArray(result.flows)) {
+    for (const flow of result.flows as FlowResult[]) {
+      if (flow.status === 'executed') {
+        completed.add(flow.flow);
+      } else if (flow.status === 'failed') {
+        for (const nested of completedNestedFlows(flow.sideEffects ?? [])) {
+          completed.add(nested);
+        }
+      }
+    }
+  }
+  return Array.from(completed);
+}
+
+function completedNestedFlows(sideEffects: FlowSideEffect[]) {
+  const retryable = new Set(
+    sideEffects
+      .filter(
+        (effect) => effect.status === 'failed' && effect.retryable !== false
+      )
+      .map((effect) => effect.flow)
+  );
+  return new Set(
+    sideEffects
+      .map((effect) => effect.flow)
+      .filter((flow): flow is string => !!flow && !retryable.has(flow))
+  );
+}
+
+// Process every event that is due for an attempt, oldest first
+export async function drainEventQueue(limit = DEFAULT_DRAIN_LIMIT) {
+  const log = createLogger('event-worker');
+  const dueEvents = await eventQueue.dueEvents();
+  const batch = dueEvents.slice(0, limit);
+
+  log.info(
+    { dueCount: dueEvents.length, batchSize: batch.length },
+    'Draining event queue'
+  );
+
+  const processed = [];
+  for (const event of batch) {
+    const { eventId, outcome } = await processQueuedEvent(event.id);
+    processed.push({ eventId, outcome });
+  }
+
+  return {
+    processed,
+    remaining: dueEvents.length - batch.length,
+  };
+}
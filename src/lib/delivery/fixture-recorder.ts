@@ -0,0 +1,135 @@
+import { createHmac, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createLogger } from '../logger';
+
+// Headers worth keeping to reproduce a delivery; everything else (cookies,
+// forwarding and Vercel headers) is dropped
+const RECORDED_HEADERS = [
+  'content-type',
+  'user-agent',
+  'linear-delivery',
+  'linear-event',
+  'linear-signature',
+  'linear-timestamp',
+  'linear-webhook-id',
+];
+
+const SECRET_HEADERS = ['linear-signature'];
+
+// Payload keys whose values identify people or grant access
+const REDACTED_KEYS = /^(email|avatarUrl|ipAddress|token|secret)$/i;
+const PERSON_KEYS = ['actor', 'assignee', 'creator', 'user', 'lead'];
+
+// Free text written by users (titles, descriptions, comment bodies)
+const FREE_TEXT_KEYS =
+  /^(title|subtitle|description|descriptionData|body|bodyData|content|contentData)$/;
+
+// Free text is replaced by a keyed hash: equal texts (e.g. data.title and an
+// unchanged updatedFrom.title) stay equal, so change detection replays the
+// same way, but the text cannot be recovered. The key changes per process.
+const FREE_TEXT_KEY = randomBytes(32);
+
+function redactFreeText(text: string) {
+  const digest = createHmac('sha256', FREE_TEXT_KEY).update(text).digest('hex');
+  return `[redacted text ${digest.slice(0, 12)}]`;
+}
+
+export interface WebhookFixture {
+  recordedAt: string;
+  type: string;
+  headers: Record<string, string>;
+  payload: unknown;
+}
+
+function sanitizeHeaders(headers: Headers) {
+  const recorded: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = headers.get(name);
+    if (value !== null) {
+      recorded[name] = SECRET_HEADERS.includes(name) ? '[redacted]' : value;
+    }
+  }
+  return recorded;
+}
+
+function sanitizeValue(value: unknown, key?: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeValue(item, key));
+  }
+
+  if (key && FREE_TEXT_KEYS.test(key) && value !== null) {
+    return typeof value === 'string' ? redactFreeText(value) : '[redacted]';
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return key && REDACTED_KEYS.test(key) && typeof value === 'string'
+      ? '[redacted]'
+      : value;
+  }
+
+  const sanitized: Record<string, unknown> = {};
+  for (const [childKey, child] of Object.entries(value)) {
+    // Keep IDs so fake Linear data can be seeded to match, but not names
+    sanitized[childKey] =
+      key && PERSON_KEYS.includes(key) && childKey === 'name'
+        ? '[redacted]'
+        : sanitizeValue(child, childKey);
+  }
+  return sanitized;
+}
+
+// Writes each accepted delivery as a replayable fixture file when
+// WEBHOOK_FIXTURE_DIR is set (see scripts/replay-fixtures)
+class FixtureRecorder {
+  private directory = process.env.WEBHOOK_FIXTURE_DIR || '';
+  private log = createLogger('fixture-recorder');
+
+  get enabled() {
+    return !!this.directory;
+  }
+
+  async record(type: string, headers: Headers, payload: unknown) {
+    if (!this.enabled) {
+      return;
+    }
+
+    const fixture: WebhookFixture = {
+      recordedAt: new Date().toISOString(),
+      type,
+      headers: sanitizeHeaders(headers),
+      payload: sanitizeValue(payload),
+    };
+
+    const { action, type: entityType } = (payload ?? {}) as Record<
+      string,
+      unknown
+    >;
+    const fileName = [
+      fixture.recordedAt.replace(/[:.]/g, '-'),
+      type,
+      entityType,
+      action,
+    ]
+      .filter(Boolean)
+      .join('-');
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      const filePath = path.join(this.directory, `${fileName}.json`);
+      await fs.writeFile(filePath, JSON.stringify(fixture, null, 2), 'utf8');
+      this.log.info({ filePath }, 'Recorded webhook fixture');
+    } catch (error) {
+      // Recording is a debugging aid and must never fail a delivery
+      this.log.warn(
+        {
+          directory: this.directory,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to record webhook fixture'
+      );
+    }
+  }
+}
+
+export const fixtureRecorder = new FixtureRecorder();
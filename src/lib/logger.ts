@@ -4,7 +4,7 @@ export const logger: Logger =
   process.env.NODE_ENV === 'production'
     ? // JSON in production for Vercel
       pino({
-        level: 'info',
+        level: process.env.LOG_LEVEL || 'info',
         formatters: {
           level: (label) => {
             return { severity: label.toUpperCase() };
@@ -22,7 +22,7 @@ export const logger: Logger =
             ignore: 'pid,hostname',
           },
         },
-        level: 'debug',
+        level: process.env.LOG_LEVEL || 'debug',
       });
 
 // Create contextual loggers for different modules
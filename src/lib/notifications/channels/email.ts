@@ -0,0 +1,80 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import {
+  NotificationChannel,
+  NotificationError,
+  NotificationMessage,
+} from '../types';
+import { issueFacts } from './issue-facts';
+
+let transporter: Transporter | null = null;
+
+// One SMTP transport for all email channels, configured by SMTP_* variables
+function getTransporter() {
+  if (!process.env.SMTP_HOST) {
+    throw new NotificationError('SMTP_HOST not configured', false);
+  }
+
+  if (!transporter) {
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE
+        ? process.env.SMTP_SECURE === 'true'
+        : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+  return transporter;
+}
+
+export class EmailChannel implements NotificationChannel {
+  readonly type = 'email';
+
+  constructor(private to: string | string[]) {}
+
+  async send(_channelName: string, message: NotificationMessage) {
+    const lines = [
+      message.link
+        ? `${message.text} ${message.link.label}: ${message.link.url}`
+        : message.text,
+    ];
+    if (message.issue) {
+      lines.push('', `${message.issue.identifier} ${message.issue.title}`);
+      if (message.issue.assignee) {
+        lines.push(`Assignee: ${message.issue.assignee.name}`);
+      }
+      for (const [label, value] of issueFacts(message.issue)) {
+        lines.push(`${label}: ${value}`);
+      }
+    }
+    if (message.actions?.length) {
+      lines.push('');
+      for (const action of message.actions) {
+        lines.push(`${action.label}: ${action.url}`);
+      }
+    }
+    const text = lines.join('\n');
+
+    try {
+      await getTransporter().sendMail({
+        from: process.env.SMTP_FROM || process.env.SMTP_USER,
+        to: this.to,
+        subject: message.title || message.text,
+        text,
+      });
+    } catch (error) {
+      if (error instanceof NotificationError) {
+        throw error;
+      }
+      // nodemailer reports SMTP response codes; 4xx are temporary failures
+      const responseCode = (error as { responseCode?: number }).responseCode;
+      throw new NotificationError(
+        error instanceof Error ? error.message : String(error),
+        responseCode === undefined || responseCode < 500
+      );
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { NotificationError } from '../types';
+
+// POSTs a JSON body and returns the response; 429, 5xx and network failures
+// are worth retrying, other error statuses mean the request itself is wrong
+export async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new NotificationError(
+      error instanceof Error ? error.message : String(error),
+      true
+    );
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new NotificationError(
+      `${response.status} ${response.statusText} - ${errorText}`,
+      response.status === 429 || response.status >= 500
+    );
+  }
+  return response;
+}
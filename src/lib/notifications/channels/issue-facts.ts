@@ -0,0 +1,31 @@
+import { NotificationIssueContext } from '../types';
+
+// Label/value pairs shown under a message, in display order; the issue
+// itself and the assignee are rendered separately by each channel
+export function issueFacts(
+  issue: NotificationIssueContext
+): [string, string][] {
+  const facts: [string, string][] = [];
+
+  if (issue.currentState) {
+    facts.push([
+      'State',
+      issue.previousState && issue.previousState !== issue.currentState
+        ? `${issue.previousState} → ${issue.currentState}`
+        : issue.currentState,
+    ]);
+  }
+  if (issue.priority) {
+    facts.push(['Priority', issue.priority]);
+  }
+  if (issue.estimate !== undefined) {
+    facts.push(['Estimate', `${issue.estimate} pts`]);
+  }
+  if (issue.cycle) {
+    facts.push(['Cycle', issue.cycle]);
+  }
+  if (issue.labels?.length) {
+    facts.push(['Labels', issue.labels.join(', ')]);
+  }
+  return facts;
+}
@@ -0,0 +1,21 @@
+import { NotificationChannel, NotificationMessage } from '../types';
+import { postJson } from './http';
+
+// Posts the message as-is, together with the logical channel name, for
+// receivers we do not have a dedicated format for
+export class JsonWebhookChannel implements NotificationChannel {
+  readonly type = 'webhook';
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string> = {}
+  ) {}
+
+  async send(channelName: string, message: NotificationMessage) {
+    await postJson(
+      this.url,
+      { channel: channelName, ...message, sentAt: new Date().toISOString() },
+      this.headers
+    );
+  }
+}
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SlackApiChannel, SlackThread } from './slack-api';
+import { MemoryStorage } from '../../storage/memory-storage';
+import { NotificationError, NotificationMessage } from '../types';
+
+const NOW = new Date('2025-01-10T09:00:00.000Z');
+const KEY = 'C123:issue-1';
+
+const message: NotificationMessage = {
+  text: 'PRD-1 moved to QA Testing',
+  issue: {
+    id: 'issue-1',
+    identifier: 'PRD-1',
+    title: 'Add payment step',
+    url: 'https://linear.app/acme/issue/PRD-1',
+  },
+};
+
+interface SlackCall {
+  method: string;
+  body: Record<string, unknown>;
+}
+
+function createChannel() {
+  const threads = new MemoryStorage<SlackThread>();
+  const channel = new SlackApiChannel('C123', 'xoxb-test', threads);
+  return { channel, threads };
+}
+
+function slackResponse(body: Record<string, unknown>) {
+  return new Response(JSON.stringify(body));
+}
+
+describe('SlackApiChannel', () => {
+  let calls: SlackCall[];
+  let respond: (call: SlackCall) => Record<string, unknown>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    calls = [];
+    respond = () => ({ ok: true, ts: '1000.0001' });
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string, init: RequestInit) => {
+        const call = {
+          method: url.split('/').pop()!,
+          body: JSON.parse(init.body as string),
+        };
+        calls.push(call);
+        return slackResponse(respond(call));
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('starts a thread for the first message about an issue', async () => {
+    const { channel, threads } = createChannel();
+
+    await channel.send('fireman', message);
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].method).toBe('chat.postMessage');
+    expect(calls[0].body.thread_ts).toBeUndefined();
+    expect(await threads.get(KEY)).toEqual({
+      channel: 'C123',
+      issueId: 'issue-1',
+      ts: '1000.0001',
+      updatedAt: NOW.toISOString(),
+    });
+  });
+
+  it('replies in the thread and updates the parent for later messages', async () => {
+    const { channel, threads } = createChannel();
+    await threads.set(KEY, {
+      channel: 'C123',
+      issueId: 'issue-1',
+      ts: '999.0001',
+      updatedAt: NOW.toISOString(),
+    });
+
+    await channel.send('fireman', message);
+
+    expect(calls.map((call) => call.method)).toEqual([
+      'chat.postMessage',
+      'chat.update',
+    ]);
+    expect(calls[0].body).toMatchObject({
+      channel: 'C123',
+      thread_ts: '999.0001',
+    });
+    expect(calls[1].body).toMatchObject({ channel: 'C123', ts: '999.0001' });
+  });
+
+  it('posts messages without an issue outside any thread', async () => {
+    const { channel, threads } = createChannel();
+
+    await channel.send('fireman', { text: 'Cycle 12 started' });
+
+    expect(calls).toHaveLength(1);
+    expect(await threads.list()).toEqual([]);
+  });
+
+  it('lets only one of two concurrent messages start the thread', async () => {
+    const { channel } = createChannel();
+
+    const results = await Promise.allSettled([
+      channel.send('fireman', message),
+      channel.send('fireman', message),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    const rejected = results.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    expect(rejected?.reason).toBeInstanceOf(NotificationError);
+    expect(rejected?.reason).toMatchObject({
+      message: 'thread_pending',
+      retryable: true,
+    });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('asks for a retry while another event is posting the parent', async () => {
+    const { channel, threads } = createChannel();
+    await threads.set(KEY, {
+      channel: 'C123',
+      issueId: 'issue-1',
+      updatedAt: new Date(NOW.getTime() - 30 * 1000).toISOString(),
+    });
+
+    await expect(channel.send('fireman', message)).rejects.toMatchObject({
+      message: 'thread_pending',
+      retryable: true,
+    });
+    expect(calls).toHaveLength(0);
+  });
+
+  it('starts a new thread when a claim was abandoned', async () => {
+    const { channel, threads } = createChannel();
+    await threads.set(KEY, {
+      channel: 'C123',
+      issueId: 'issue-1',
+      updatedAt: new Date(NOW.getTime() - 2 * 60 * 1000).toISOString(),
+    });
+
+    await channel.send('fireman', message);
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].body.thread_ts).toBeUndefined();
+    expect(await threads.get(KEY)).toMatchObject({ ts: '1000.0001' });
+  });
+
+  it('releases the claim when the parent could not be posted', async () => {
+    const { channel, threads } = createChannel();
+    respond = () => ({ ok: false, error: 'ratelimited' });
+
+    await expect(channel.send('fireman', message)).rejects.toMatchObject({
+      message: 'ratelimited',
+      retryable: true,
+    });
+    expect(await threads.get(KEY)).toBeNull();
+  });
+
+  it('starts a new thread when the stored parent no longer exists', async () => {
+    const { channel, threads } = createChannel();
+    await threads.set(KEY, {
+      channel: 'C123',
+      issueId: 'issue-1',
+      ts: '999.0001',
+      updatedAt: NOW.toISOString(),
+    });
+    respond = (call) =>
+      call.body.thread_ts
+        ? { ok: false, error: 'thread_not_found' }
+        : { ok: true, ts: '1000.0002' };
+
+    await channel.send('fireman', message);
+
+    expect(calls.map((call) => call.body.thread_ts)).toEqual([
+      '999.0001',
+      undefined,
+    ]);
+    expect(await threads.get(KEY)).toMatchObject({ ts: '1000.0002' });
+  });
+
+  it('does not fail a posted reply when the parent update fails', async () => {
+    const { channel, threads } = createChannel();
+    await threads.set(KEY, {
+      channel: 'C123',
+      issueId: 'issue-1',
+      ts: '999.0001',
+      updatedAt: NOW.toISOString(),
+    });
+    respond = (call) =>
+      call.method === 'chat.update'
+        ? { ok: false, error: 'cant_update_message' }
+        : { ok: true, ts: '1000.0003' };
+
+    await expect(channel.send('fireman', message)).resolves.toBeUndefined();
+    expect(calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,210 @@
+import { createLogger } from '../../logger';
+import { KeyValueStorage } from '../../storage';
+import {
+  NotificationChannel,
+  NotificationError,
+  NotificationMessage,
+} from '../types';
+import { postJson } from './http';
+import { renderSlackBlocks, slackText } from './slack-blocks';
+
+export interface SlackThread {
+  channel: string;
+  issueId: string;
+  // Unset while the parent message is being posted
+  ts?: string;
+  updatedAt: string;
+}
+
+interface SlackApiResponse {
+  ok: boolean;
+  error?: string;
+  ts?: string;
+}
+
+// Slack answers 200 with ok: false for most failures; these are temporary
+const RETRYABLE_ERRORS = [
+  'ratelimited',
+  'internal_error',
+  'fatal_error',
+  'service_unavailable',
+  'request_timeout',
+];
+
+// The stored parent message is gone, so a new thread has to be started
+const MISSING_THREAD_ERRORS = ['thread_not_found', 'message_not_found'];
+
+// A claim without ts older than this was left by an attempt that died
+// before it could store the parent
+const PENDING_THREAD_TIMEOUT_MS = 60 * 1000;
+
+// Slack Web API with a bot token. Messages about an issue are threaded: the
+// first one starts a thread whose ts is stored per channel and issue, later
+// ones are posted as replies and the parent is updated to the latest state
+export class SlackApiChannel implements NotificationChannel {
+  readonly type = 'slack-api';
+  private baseUrl = process.env.SLACK_API_URL || 'https://slack.com/api';
+  private log = createLogger('slack-api');
+
+  constructor(
+    private channel: string,
+    private token: string,
+    private threads: KeyValueStorage<SlackThread>
+  ) {}
+
+  async send(channelName: string, message: NotificationMessage) {
+    const { issue } = message;
+    if (!issue) {
+      await this.postMessage(message);
+      return;
+    }
+
+    const key = `${this.channel}:${issue.id}`;
+    const thread = await this.threads.get(key);
+    if (!thread) {
+      await this.startThread(key, issue.id, message);
+      return;
+    }
+
+    if (!thread.ts) {
+      if (
+        Date.now() - new Date(thread.updatedAt).getTime() <
+        PENDING_THREAD_TIMEOUT_MS
+      ) {
+        // Another event for this issue is posting the parent; the notifier
+        // retries once its ts is stored
+        throw new NotificationError('thread_pending', true);
+      }
+      this.log.warn(
+        { channel: this.channel, issueId: issue.id },
+        'Abandoned Slack thread claim, starting a new thread'
+      );
+      await this.threads.delete(key);
+      await this.startThread(key, issue.id, message);
+      return;
+    }
+
+    try {
+      await this.call('chat.postMessage', {
+        channel: this.channel,
+        thread_ts: thread.ts,
+        text: slackText(message),
+      });
+    } catch (error) {
+      if (
+        !(error instanceof NotificationError) ||
+        !MISSING_THREAD_ERRORS.includes(error.message)
+      ) {
+        throw error;
+      }
+      this.log.warn(
+        { channel: this.channel, issueId: issue.id, ts: thread.ts },
+        'Slack thread no longer exists, starting a new one'
+      );
+      await this.threads.delete(key);
+      await this.startThread(key, issue.id, message);
+      return;
+    }
+
+    await this.threads.set(key, {
+      ...thread,
+      updatedAt: new Date().toISOString(),
+    });
+    await this.updateParent(channelName, thread, message);
+  }
+
+  // Claims the issue before posting the parent, so two concurrent events
+  // cannot both start a thread (SET NX on the kv backend)
+  private async startThread(
+    key: string,
+    issueId: string,
+    message: NotificationMessage
+  ) {
+    const claim: SlackThread = {
+      channel: this.channel,
+      issueId,
+      updatedAt: new Date().toISOString(),
+    };
+    if (!(await this.threads.setIfAbsent(key, claim))) {
+      throw new NotificationError('thread_pending', true);
+    }
+
+    let ts: string | undefined;
+    try {
+      ts = await this.postMessage(message);
+    } catch (error) {
+      await this.threads.delete(key);
+      throw error;
+    }
+
+    if (!ts) {
+      await this.threads.delete(key);
+      return;
+    }
+    await this.threads.set(key, {
+      ...claim,
+      ts,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  private async postMessage(message: NotificationMessage) {
+    const response = await this.call('chat.postMessage', {
+      channel: this.channel,
+      ...this.render(message),
+    });
+    return response.ts;
+  }
+
+  // The reply is already posted, so a failed update is only logged; throwing
+  // would make the notifier retry and post the reply twice
+  private async updateParent(
+    channelName: string,
+    thread: SlackThread,
+    message: NotificationMessage
+  ) {
+    try {
+      await this.call('chat.update', {
+        channel: this.channel,
+        ts: thread.ts,
+        ...this.render(message),
+      });
+    } catch (error) {
+      this.log.warn(
+        {
+          channel: channelName,
+          issueId: thread.issueId,
+          ts: thread.ts,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to update Slack thread parent message'
+      );
+    }
+  }
+
+  private render(message: NotificationMessage) {
+    return { text: slackText(message), blocks: renderSlackBlocks(message) };
+  }
+
+  private async call(method: string, body: Record<string, unknown>) {
+    const response = await postJson(`${this.baseUrl}/${method}`, body, {
+      Authorization: `Bearer ${this.token}`,
+    });
+
+    let result: SlackApiResponse;
+    try {
+      result = (await response.json()) as SlackApiResponse;
+    } catch {
+      throw new NotificationError(
+        `Invalid response from Slack ${method}`,
+        true
+      );
+    }
+
+    if (!result.ok) {
+      const error = result.error || 'unknown_error';
+      throw new NotificationError(error, RETRYABLE_ERRORS.includes(error));
+    }
+    return result;
+  }
+}
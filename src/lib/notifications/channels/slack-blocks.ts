@@ -0,0 +1,96 @@
+import { NotificationMessage } from '../types';
+import { issueFacts } from './issue-facts';
+
+type SlackBlock = Record<string, unknown>;
+
+// Block Kit limits: 2000 characters per section field, 75 per button label
+// and 5 elements per actions block
+const MAX_FIELD_LENGTH = 2000;
+const MAX_BUTTON_LABEL_LENGTH = 75;
+const MAX_BUTTONS = 5;
+
+function truncate(text: string, maxLength: number) {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+// Issue titles and label names are user content; &, < and > would otherwise
+// be read as mrkdwn control characters (e.g. <!channel> mentions everyone)
+export function escapeMrkdwn(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// Plain text version, also used by Slack for notifications and as fallback
+export function slackText(message: NotificationMessage) {
+  const text = message.mrkdwn ?? message.text;
+  return message.link
+    ? `${text} <${message.link.url}|${escapeMrkdwn(message.link.label)}>`
+    : text;
+}
+
+export function renderSlackBlocks(message: NotificationMessage): SlackBlock[] {
+  const blocks: SlackBlock[] = [
+    { type: 'section', text: { type: 'mrkdwn', text: slackText(message) } },
+  ];
+
+  const { issue } = message;
+  if (issue) {
+    const fields = [
+      [
+        'Issue',
+        `<${issue.url}|${escapeMrkdwn(issue.identifier)}> ${escapeMrkdwn(issue.title)}`,
+      ],
+      ...issueFacts(issue).map(([label, value]) => [
+        label,
+        escapeMrkdwn(value),
+      ]),
+    ];
+    blocks.push({
+      type: 'section',
+      fields: fields.map(([label, value]) => ({
+        type: 'mrkdwn',
+        text: truncate(`*${label}*\n${value}`, MAX_FIELD_LENGTH),
+      })),
+    });
+
+    if (issue.assignee) {
+      blocks.push({
+        type: 'context',
+        elements: [
+          ...(issue.assignee.avatarUrl
+            ? [
+                {
+                  type: 'image',
+                  image_url: issue.assignee.avatarUrl,
+                  alt_text: issue.assignee.name,
+                },
+              ]
+            : []),
+          {
+            type: 'mrkdwn',
+            text: `Assigned to *${escapeMrkdwn(issue.assignee.name)}*`,
+          },
+        ],
+      });
+    }
+  }
+
+  if (message.actions?.length) {
+    blocks.push({
+      type: 'actions',
+      elements: message.actions.slice(0, MAX_BUTTONS).map((action, index) => ({
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: truncate(action.label, MAX_BUTTON_LABEL_LENGTH),
+        },
+        url: action.url,
+        action_id: `open-link-${index}`,
+      })),
+    });
+  }
+
+  return blocks;
+}
@@ -0,0 +1,19 @@
+import { NotificationChannel, NotificationMessage } from '../types';
+import { postJson } from './http';
+import { renderSlackBlocks, slackText } from './slack-blocks';
+
+// Slack incoming webhook; messages with issue context or actions are sent as
+// Block Kit, with the plain text kept for notifications and old clients
+export class SlackWebhookChannel implements NotificationChannel {
+  readonly type = 'slack';
+
+  constructor(private url: string) {}
+
+  async send(_channelName: string, message: NotificationMessage) {
+    const hasDetails = !!message.issue || !!message.actions?.length;
+    await postJson(this.url, {
+      text: slackText(message),
+      ...(hasDetails && { blocks: renderSlackBlocks(message) }),
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import { NotificationChannel, NotificationMessage } from '../types';
+import { postJson } from './http';
+import { issueFacts } from './issue-facts';
+
+// Microsoft Teams incoming webhook, posted as a legacy MessageCard
+export class TeamsWebhookChannel implements NotificationChannel {
+  readonly type = 'teams';
+
+  constructor(private url: string) {}
+
+  async send(_channelName: string, message: NotificationMessage) {
+    const text = message.link
+      ? `${message.text} [${message.link.label}](${message.link.url})`
+      : message.text;
+    const { issue } = message;
+
+    await postJson(this.url, {
+      '@type': 'MessageCard',
+      '@context': 'https://schema.org/extensions',
+      summary: message.title || message.text,
+      ...(message.title && { title: message.title }),
+      text,
+      ...(issue && {
+        sections: [
+          {
+            activityTitle: `${issue.identifier} ${issue.title}`,
+            ...(issue.assignee && {
+              activitySubtitle: `Assigned to ${issue.assignee.name}`,
+              activityImage: issue.assignee.avatarUrl,
+            }),
+            facts: issueFacts(issue).map(([name, value]) => ({ name, value })),
+          },
+        ],
+      }),
+      ...(message.actions?.length && {
+        potentialAction: message.actions.map((action) => ({
+          '@type': 'OpenUri',
+          name: action.label,
+          targets: [{ os: 'default', uri: action.url }],
+        })),
+      }),
+    });
+  }
+}
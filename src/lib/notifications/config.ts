@@ -0,0 +1,55 @@
+import { createLogger } from '../logger';
+import { ChannelConfig } from './types';
+
+// Slack webhook variables per logical channel, preferred name first. The
+// later names are what earlier versions of the code read; they keep working
+// so existing deployments do not lose notifications
+const SLACK_WEBHOOK_ENV: Record<string, string[]> = {
+  fireman: ['SLACK_FIREMAN_WEBHOOK_URL', 'SLACK_WEBHOOK_FIREMAN_URL'],
+  'cycle-status': [
+    'SLACK_CYCLE_STATUS_WEBHOOK_URL',
+    'SLACK_WEBHOOK_STATUS_CHANGE_URL_ISSUE',
+  ],
+};
+
+// Slack channel IDs for the bot (Web API) per logical channel
+const SLACK_CHANNEL_ENV: Record<string, string> = {
+  fireman: 'SLACK_FIREMAN_CHANNEL_ID',
+  'cycle-status': 'SLACK_CYCLE_STATUS_CHANNEL_ID',
+};
+
+// Targets per logical channel name. NOTIFICATION_CHANNELS holds a JSON
+// object such as {"fireman": [{"type": "slack", "url": "..."}]}; channels it
+// does not mention use the Slack bot when SLACK_BOT_TOKEN and their channel ID
+// are set, and their Slack webhook variable otherwise
+export function loadChannelConfig(): Record<string, ChannelConfig[]> {
+  const log = createLogger('notifier');
+  let configured: Record<string, ChannelConfig[]> = {};
+
+  if (process.env.NOTIFICATION_CHANNELS) {
+    try {
+      configured = JSON.parse(process.env.NOTIFICATION_CHANNELS);
+    } catch (error) {
+      log.error(
+        { error: error instanceof Error ? error.message : String(error) },
+        'NOTIFICATION_CHANNELS is not valid JSON, ignoring it'
+      );
+    }
+  }
+
+  const channels: Record<string, ChannelConfig[]> = {};
+  for (const [name, envNames] of Object.entries(SLACK_WEBHOOK_ENV)) {
+    const slackChannel = process.env[SLACK_CHANNEL_ENV[name]];
+    const url = envNames.map((envName) => process.env[envName]).find(Boolean);
+    if (process.env.SLACK_BOT_TOKEN && slackChannel) {
+      channels[name] = [{ type: 'slack-api', channel: slackChannel }];
+    } else if (url) {
+      channels[name] = [{ type: 'slack', url }];
+    }
+  }
+
+  for (const [name, targets] of Object.entries(configured)) {
+    channels[name] = Array.isArray(targets) ? targets : [targets];
+  }
+  return channels;
+}
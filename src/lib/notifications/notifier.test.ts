@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Notifier } from './notifier';
+
+const message = { text: 'PRD-1 moved to QA Testing' };
+
+function createNotifier(maxRetries = 2) {
+  vi.stubEnv('NOTIFICATION_MAX_RETRIES', String(maxRetries));
+  vi.stubEnv(
+    'NOTIFICATION_CHANNELS',
+    JSON.stringify({
+      alerts: [
+        { type: 'webhook', url: 'https://first.test/hook' },
+        { type: 'webhook', url: 'https://second.test/hook' },
+      ],
+    })
+  );
+  return new Notifier();
+}
+
+function callsTo(fetchMock: ReturnType<typeof vi.fn>, url: string) {
+  return fetchMock.mock.calls.filter(([target]) => target === url).length;
+}
+
+describe('Notifier', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock = vi.fn(async () => new Response('ok'));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('returns one delivery per target', async () => {
+    const notifier = createNotifier();
+
+    const deliveries = await notifier.notify('alerts', message);
+
+    expect(deliveries).toEqual([
+      { target: 'webhook', status: 'sent', attempts: 1 },
+      { target: 'webhook', status: 'sent', attempts: 1 },
+    ]);
+  });
+
+  it('returns no deliveries for a channel without targets', async () => {
+    const notifier = createNotifier();
+
+    expect(await notifier.notify('unknown', message)).toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('retries a 5xx with backoff and only for the failing target', async () => {
+    const notifier = createNotifier();
+    fetchMock.mockImplementation(async (url: string) =>
+      url === 'https://first.test/hook' &&
+      callsTo(fetchMock, 'https://first.test/hook') === 1
+        ? new Response('Unavailable', { status: 503 })
+        : new Response('ok')
+    );
+
+    const notify = notifier.notify('alerts', message);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(callsTo(fetchMock, 'https://first.test/hook')).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(await notify).toEqual([
+      { target: 'webhook', status: 'sent', attempts: 2 },
+      { target: 'webhook', status: 'sent', attempts: 1 },
+    ]);
+    expect(callsTo(fetchMock, 'https://second.test/hook')).toBe(1);
+  });
+
+  it('gives up after NOTIFICATION_MAX_RETRIES retries', async () => {
+    const notifier = createNotifier(2);
+    fetchMock.mockImplementation(
+      async () => new Response('Too many requests', { status: 429 })
+    );
+
+    const notify = notifier.notify('alerts', message);
+    await vi.advanceTimersByTimeAsync(500 + 1000);
+    const [delivery] = await notify;
+
+    expect(delivery).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      retryable: true,
+    });
+    expect(callsTo(fetchMock, 'https://first.test/hook')).toBe(3);
+  });
+
+  it('does not retry an error a retry cannot fix', async () => {
+    const notifier = createNotifier();
+    fetchMock.mockImplementation(
+      async () => new Response('Not found', { status: 404 })
+    );
+
+    const [delivery] = await notifier.notify('alerts', message);
+
+    expect(delivery).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      retryable: false,
+    });
+    expect(delivery.error).toContain('404');
+  });
+
+  it('treats a network failure as retryable', async () => {
+    const notifier = createNotifier(1);
+    fetchMock.mockImplementation(async () => {
+      throw new TypeError('fetch failed');
+    });
+
+    const notify = notifier.notify('alerts', message);
+    await vi.advanceTimersByTimeAsync(500);
+    const [delivery] = await notify;
+
+    expect(delivery).toEqual({
+      target: 'webhook',
+      status: 'failed',
+      attempts: 2,
+      error: 'fetch failed',
+      retryable: true,
+    });
+  });
+
+  it('prunes Slack threads without a recent notification', async () => {
+    vi.stubEnv('SLACK_BOT_TOKEN', 'xoxb-test');
+    vi.stubEnv(
+      'NOTIFICATION_CHANNELS',
+      JSON.stringify({ fireman: [{ type: 'slack-api', channel: 'C123' }] })
+    );
+    const notifier = new Notifier();
+    fetchMock.mockImplementation(
+      async () => new Response(JSON.stringify({ ok: true, ts: '1000.0001' }))
+    );
+    const issue = {
+      id: 'issue-1',
+      identifier: 'PRD-1',
+      title: 'Add payment step',
+      url: 'https://linear.app/acme/issue/PRD-1',
+    };
+    await notifier.notify('fireman', { ...message, issue });
+
+    const now = Date.now();
+    expect(await notifier.prune(new Date(now + 24 * 60 * 60 * 1000))).toBe(0);
+    expect(await notifier.prune(new Date(now + 91 * 24 * 60 * 60 * 1000))).toBe(
+      1
+    );
+
+    // The next message about the issue starts a new thread
+    fetchMock.mockClear();
+    await notifier.notify('fireman', { ...message, issue });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(
+      JSON.parse(fetchMock.mock.calls[0][1].body as string).thread_ts
+    ).toBeUndefined();
+  });
+
+  it('has nothing to prune without Slack bot targets', async () => {
+    const notifier = createNotifier();
+
+    expect(await notifier.prune()).toBe(0);
+  });
+});
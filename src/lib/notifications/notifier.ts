@@ -0,0 +1,203 @@
+import { createLogger } from '../logger';
+import { dryRun } from '../delivery/dry-run';
+import { createDurableStorage, KeyValueStorage } from '../storage';
+import { loadChannelConfig } from './config';
+import { EmailChannel } from './channels/email';
+import { JsonWebhookChannel } from './channels/json-webhook';
+import { SlackApiChannel, SlackThread } from './channels/slack-api';
+import { SlackWebhookChannel } from './channels/slack-webhook';
+import { TeamsWebhookChannel } from './channels/teams-webhook';
+import {
+  ChannelConfig,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationError,
+  NotificationMessage,
+} from './types';
+
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+// Threads of issues without a notification for this long are forgotten; the
+// next message about such an issue starts a new thread
+const SLACK_THREAD_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+function createChannel(
+  config: ChannelConfig,
+  slackThreads: () => KeyValueStorage<SlackThread>
+): NotificationChannel {
+  switch (config.type) {
+    case 'slack':
+      return new SlackWebhookChannel(config.url);
+    case 'slack-api': {
+      const token = config.token || process.env.SLACK_BOT_TOKEN;
+      if (!token) {
+        throw new Error('Slack API target needs a token or SLACK_BOT_TOKEN');
+      }
+      return new SlackApiChannel(config.channel, token, slackThreads());
+    }
+    case 'teams':
+      return new TeamsWebhookChannel(config.url);
+    case 'webhook':
+      return new JsonWebhookChannel(config.url, config.headers);
+    case 'email':
+      return new EmailChannel(config.to);
+    default:
+      throw new Error(
+        `Unknown notification channel type: ${(config as { type?: string }).type}`
+      );
+  }
+}
+
+// Sends messages to logical channels ("fireman", "cycle-status"), each backed
+// by one or more Slack, Teams, JSON webhook or email targets
+export class Notifier {
+  private log = createLogger('notifier');
+  private maxRetries = parseInt(
+    process.env.NOTIFICATION_MAX_RETRIES || String(DEFAULT_MAX_RETRIES),
+    10
+  );
+  private channels: Record<string, NotificationChannel[]> | null = null;
+  // Thread parents per Slack channel and issue, shared by all bot targets;
+  // only created when a bot target needs it, since it requires the kv
+  // backend in production
+  private slackThreads: KeyValueStorage<SlackThread> | undefined;
+
+  // One delivery per target of the channel; empty when the channel has none
+  async notify(
+    channelName: string,
+    message: NotificationMessage,
+    context: Record<string, unknown> = {}
+  ): Promise<NotificationDelivery[]> {
+    const targets = this.getChannels()[channelName] ?? [];
+    if (targets.length === 0) {
+      this.log.warn(
+        { channel: channelName, ...context },
+        `Notification channel "${channelName}" not configured, skipping notification`
+      );
+      return [];
+    }
+
+    return Promise.all(
+      targets.map((target) =>
+        this.sendWithRetry(channelName, target, message, context)
+      )
+    );
+  }
+
+  private async sendWithRetry(
+    channelName: string,
+    target: NotificationChannel,
+    message: NotificationMessage,
+    context: Record<string, unknown>
+  ): Promise<NotificationDelivery> {
+    if (dryRun.intercept(target.type, channelName, message)) {
+      return { target: target.type, status: 'dry-run', attempts: 0 };
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await target.send(channelName, message);
+        this.log.info(
+          { channel: channelName, target: target.type, attempt, ...context },
+          `Sent ${target.type} notification to "${channelName}"`
+        );
+        return { target: target.type, status: 'sent', attempts: attempt + 1 };
+      } catch (error) {
+        const retryable =
+          !(error instanceof NotificationError) || error.retryable;
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+
+        if (!retryable || attempt >= this.maxRetries) {
+          this.log.error(
+            {
+              channel: channelName,
+              target: target.type,
+              attempt,
+              retryable,
+              error: errorMessage,
+              ...context,
+            },
+            `Failed to send ${target.type} notification to "${channelName}"`
+          );
+          return {
+            target: target.type,
+            status: 'failed',
+            attempts: attempt + 1,
+            error: errorMessage,
+            retryable,
+          };
+        }
+
+        const delayMs = BASE_RETRY_DELAY_MS * 2 ** attempt;
+        this.log.warn(
+          {
+            channel: channelName,
+            target: target.type,
+            attempt,
+            delayMs,
+            error: errorMessage,
+            ...context,
+          },
+          `Retrying ${target.type} notification to "${channelName}"`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  async prune(now = new Date()): Promise<number> {
+    this.getChannels();
+    if (!this.slackThreads) {
+      return 0;
+    }
+
+    const cutoff = new Date(
+      now.getTime() - SLACK_THREAD_RETENTION_MS
+    ).toISOString();
+    const expired = (await this.slackThreads.list()).filter(
+      (thread) => thread.updatedAt < cutoff
+    );
+
+    for (const thread of expired) {
+      await this.slackThreads.delete(`${thread.channel}:${thread.issueId}`);
+    }
+
+    if (expired.length > 0) {
+      this.log.info(
+        { pruned: expired.length, cutoff },
+        'Pruned expired Slack threads'
+      );
+    }
+    return expired.length;
+  }
+
+  // Built on first use so configuration errors are logged, not thrown on import
+  private getChannels() {
+    if (!this.channels) {
+      this.channels = {};
+      const getSlackThreads = () =>
+        (this.slackThreads ??=
+          createDurableStorage<SlackThread>('slack-threads'));
+      for (const [name, configs] of Object.entries(loadChannelConfig())) {
+        this.channels[name] = configs.flatMap((config) => {
+          try {
+            return [createChannel(config, getSlackThreads)];
+          } catch (error) {
+            this.log.error(
+              {
+                channel: name,
+                error: error instanceof Error ? error.message : String(error),
+              },
+              'Ignoring invalid notification target'
+            );
+            return [];
+          }
+        });
+      }
+    }
+    return this.channels;
+  }
+}
+
+export const notifier = new Notifier();
@@ -0,0 +1,71 @@
+export interface NotificationLink {
+  url: string;
+  label: string;
+}
+
+// Details of the issue a message is about, rendered as fields (Slack),
+// facts (Teams) or extra lines (email)
+export interface NotificationIssueContext {
+  // Linear issue ID, stable across identifier changes (used for threading)
+  id: string;
+  identifier: string;
+  title: string;
+  url: string;
+  assignee?: { name: string; avatarUrl?: string };
+  priority?: string;
+  estimate?: number;
+  previousState?: string;
+  currentState?: string;
+  labels?: string[];
+  cycle?: string;
+}
+
+// A channel-neutral message; each channel renders the link in its own syntax
+export interface NotificationMessage {
+  text: string;
+  // Slack mrkdwn version of text with user content escaped; Slack uses text
+  // when unset
+  mrkdwn?: string;
+  // Used as email subject and Teams card title; falls back to the text
+  title?: string;
+  link?: NotificationLink;
+  issue?: NotificationIssueContext;
+  // Rendered as buttons where the channel supports them
+  actions?: NotificationLink[];
+}
+
+export type ChannelConfig =
+  | { type: 'slack'; url: string }
+  // Slack Web API with a bot token; defaults to SLACK_BOT_TOKEN
+  | { type: 'slack-api'; channel: string; token?: string }
+  | { type: 'teams'; url: string }
+  | { type: 'webhook'; url: string; headers?: Record<string, string> }
+  | { type: 'email'; to: string | string[] };
+
+export type ChannelType = ChannelConfig['type'];
+
+export interface NotificationChannel {
+  readonly type: ChannelType;
+  // Throws NotificationError when the message was not delivered
+  send(channelName: string, message: NotificationMessage): Promise<void>;
+}
+
+// What happened to a message for one target of a channel
+export interface NotificationDelivery {
+  target: ChannelType;
+  status: 'sent' | 'failed' | 'dry-run';
+  attempts: number;
+  error?: string;
+  // Set for failed deliveries: whether a later attempt could succeed
+  retryable?: boolean;
+}
+
+export class NotificationError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
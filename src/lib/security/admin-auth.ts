@@ -0,0 +1,12 @@
+import { constantTimeEqual } from './webhook-signature';
+
+// Admin routes require "Authorization: Bearer <ADMIN_API_TOKEN>" and are
+// disabled entirely while no token is configured
+export function isAdminAuthorized(authorizationHeader: string | null): boolean {
+  const adminToken = process.env.ADMIN_API_TOKEN || '';
+  if (!adminToken || !authorizationHeader) {
+    return false;
+  }
+
+  return constantTimeEqual(authorizationHeader, `Bearer ${adminToken}`);
+}
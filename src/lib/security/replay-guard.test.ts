@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayGuard } from './replay-guard';
+
+const TOLERANCE_MS = 60 * 1000;
+const NOW = Date.parse('2025-01-10T09:00:00.000Z');
+
+describe('ReplayGuard.checkTimestamp', () => {
+  const guard = new ReplayGuard(TOLERANCE_MS);
+
+  it('accepts timestamps within the tolerance on either side', () => {
+    expect(guard.checkTimestamp(NOW, NOW)).toEqual({ accepted: true });
+    expect(guard.checkTimestamp(NOW - TOLERANCE_MS, NOW)).toEqual({
+      accepted: true,
+    });
+    expect(guard.checkTimestamp(NOW + TOLERANCE_MS, NOW)).toEqual({
+      accepted: true,
+    });
+  });
+
+  it('rejects timestamps outside the tolerance', () => {
+    const old = guard.checkTimestamp(NOW - TOLERANCE_MS - 1, NOW);
+    const future = guard.checkTimestamp(NOW + TOLERANCE_MS + 1, NOW);
+
+    expect(old).toMatchObject({
+      accepted: false,
+      reason: 'timestamp_outside_tolerance',
+    });
+    expect(future).toMatchObject({
+      accepted: false,
+      reason: 'timestamp_outside_tolerance',
+    });
+  });
+
+  it('rejects a missing or non-numeric timestamp', () => {
+    for (const timestamp of [undefined, 0, NaN, Infinity]) {
+      expect(guard.checkTimestamp(timestamp, NOW)).toMatchObject({
+        accepted: false,
+        reason: 'missing_timestamp',
+      });
+    }
+  });
+});
@@ -0,0 +1,52 @@
+// Linear recommends rejecting deliveries older than one minute
+const DEFAULT_TOLERANCE_MS = 60 * 1000;
+
+// Timestamps are checked here. Seen delivery IDs are kept by the delivery
+// ledger (../delivery/delivery-ledger) rather than a store of their own; the
+// webhook route reports its duplicates as duplicate_delivery
+export type ReplayRejectionReason =
+  'missing_timestamp' | 'timestamp_outside_tolerance' | 'duplicate_delivery';
+
+export type ReplayCheckResult =
+  | { accepted: true }
+  | { accepted: false; reason: ReplayRejectionReason; detail: string };
+
+function readMsFromEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export class ReplayGuard {
+  constructor(
+    private toleranceMs = readMsFromEnv(
+      'LINEAR_WEBHOOK_TOLERANCE_MS',
+      DEFAULT_TOLERANCE_MS
+    )
+  ) {}
+
+  checkTimestamp(
+    timestamp: number | undefined,
+    now = Date.now()
+  ): ReplayCheckResult {
+    if (!timestamp || !Number.isFinite(timestamp)) {
+      return {
+        accepted: false,
+        reason: 'missing_timestamp',
+        detail: 'Webhook timestamp is missing or not a number',
+      };
+    }
+
+    const drift = Math.abs(now - timestamp);
+    if (drift > this.toleranceMs) {
+      return {
+        accepted: false,
+        reason: 'timestamp_outside_tolerance',
+        detail: `Webhook timestamp is ${drift}ms away from server time (tolerance ${this.toleranceMs}ms)`,
+      };
+    }
+
+    return { accepted: true };
+  }
+}
+
+export const replayGuard = new ReplayGuard();
@@ -0,0 +1,58 @@
+import { createHmac } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { constantTimeEqual, verifyLinearWebhook } from './webhook-signature';
+
+const SECRET = 'webhook-secret';
+const BODY = JSON.stringify({ action: 'update', type: 'Issue' });
+
+function sign(body: string, secret = SECRET) {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+describe('constantTimeEqual', () => {
+  it('matches equal strings', () => {
+    expect(constantTimeEqual('abc123', 'abc123')).toBe(true);
+    expect(constantTimeEqual('', '')).toBe(true);
+  });
+
+  it('rejects strings that differ in one character', () => {
+    expect(constantTimeEqual('abc123', 'abc124')).toBe(false);
+    expect(constantTimeEqual('xbc123', 'abc123')).toBe(false);
+  });
+
+  it('rejects prefixes and strings of another length', () => {
+    expect(constantTimeEqual('abc', 'abc123')).toBe(false);
+    expect(constantTimeEqual('abc123', 'abc')).toBe(false);
+    expect(constantTimeEqual('', 'a')).toBe(false);
+  });
+
+  it('does not treat NUL padding as a match', () => {
+    expect(constantTimeEqual('abc', 'abc\0')).toBe(false);
+  });
+});
+
+describe('verifyLinearWebhook', () => {
+  it('accepts the HMAC-SHA256 of the body', async () => {
+    expect(await verifyLinearWebhook(BODY, sign(BODY), SECRET)).toBe(true);
+  });
+
+  it('accepts a sha256= prefix and upper-case hex', async () => {
+    const signature = `sha256=${sign(BODY).toUpperCase()}`;
+
+    expect(await verifyLinearWebhook(BODY, signature, SECRET)).toBe(true);
+  });
+
+  it('rejects a signature of another body or secret', async () => {
+    expect(await verifyLinearWebhook(BODY, sign(`${BODY} `), SECRET)).toBe(
+      false
+    );
+    expect(await verifyLinearWebhook(BODY, sign(BODY, 'other'), SECRET)).toBe(
+      false
+    );
+  });
+
+  it('rejects a missing signature or secret', async () => {
+    expect(await verifyLinearWebhook(BODY, '', SECRET)).toBe(false);
+    expect(await verifyLinearWebhook(BODY, sign(BODY), '')).toBe(false);
+  });
+});
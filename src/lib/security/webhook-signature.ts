@@ -0,0 +1,56 @@
+import { createWebhookLogger } from '../logger';
+
+// Compare two strings without short-circuiting on the first mismatch, so the
+// time taken does not leak how much of the signature was correct
+export function constantTimeEqual(a: string, b: string): boolean {
+  const length = Math.max(a.length, b.length);
+  let mismatch = a.length ^ b.length;
+
+  for (let i = 0; i < length; i++) {
+    mismatch |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+
+  return mismatch === 0;
+}
+
+// Webhook signature verification
+export async function verifyLinearWebhook(
+  payload: string,
+  signature: string,
+  secret: string
+): Promise<boolean> {
+  if (!signature || !secret) {
+    return false;
+  }
+
+  try {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+
+    const expectedSignature = await crypto.subtle.sign(
+      'HMAC',
+      key,
+      encoder.encode(payload)
+    );
+
+    const expectedHex = Array.from(new Uint8Array(expectedSignature))
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join('');
+
+    const receivedSignature = signature.replace('sha256=', '').toLowerCase();
+    return constantTimeEqual(expectedHex, receivedSignature);
+  } catch (error) {
+    const log = createWebhookLogger('signature-verification');
+    log.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      'Error verifying webhook signature'
+    );
+    return false;
+  }
+}
@@ -0,0 +1,107 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { KeyValueStorage } from './types';
+import { createLogger } from '../logger';
+
+// Stores each entry as a JSON file inside one directory per namespace
+export class FileStorage<T> implements KeyValueStorage<T> {
+  private log = createLogger('file-storage');
+
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<T | null> {
+    try {
+      const content = await fs.readFile(this.filePath(key), 'utf8');
+      return JSON.parse(content) as T;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so readers never see a partial entry
+    const target = this.filePath(key);
+    const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(value), 'utf8');
+    await fs.rename(temporary, target);
+  }
+
+  async setIfAbsent(key: string, value: T): Promise<boolean> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Linking fails if the target exists, so only one writer can create it
+    const target = this.filePath(key);
+    const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(value), 'utf8');
+    try {
+      await fs.link(temporary, target);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    } finally {
+      await fs.unlink(temporary);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.filePath(key));
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  }
+
+  async list(): Promise<T[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.directory);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: T[] = [];
+    for (const fileName of fileNames.filter((name) => name.endsWith('.json'))) {
+      try {
+        const content = await fs.readFile(
+          path.join(this.directory, fileName),
+          'utf8'
+        );
+        entries.push(JSON.parse(content) as T);
+      } catch (error) {
+        this.log.warn(
+          {
+            fileName,
+            directory: this.directory,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Skipping unreadable storage entry'
+        );
+      }
+    }
+
+    return entries;
+  }
+
+  private filePath(key: string) {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+}
+
+function isNotFound(error: unknown) {
+  return (
+    error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT'
+  );
+}
@@ -0,0 +1,73 @@
+import path from 'path';
+import { KeyValueStorage, StorageBackend } from './types';
+import { MemoryStorage } from './memory-storage';
+import { FileStorage } from './file-storage';
+import { KvStorage } from './kv-storage';
+import { createLogger } from '../logger';
+
+export type { KeyValueStorage, StorageBackend } from './types';
+
+const DEFAULT_STORAGE_DIR = '/tmp/linear-connector';
+
+// Create a storage for one namespace (e.g. "deliveries") using the backend
+// selected by STORAGE_BACKEND; the file backend is rooted at STORAGE_DIR and
+// the kv backend talks to the REST API at KV_REST_API_URL
+export function createStorage<T>(
+  namespace: string,
+  backend: StorageBackend = (process.env.STORAGE_BACKEND as StorageBackend) ||
+    'memory'
+): KeyValueStorage<T> {
+  switch (backend) {
+    case 'file':
+      return new FileStorage<T>(
+        path.join(process.env.STORAGE_DIR || DEFAULT_STORAGE_DIR, namespace)
+      );
+    case 'kv':
+      if (!process.env.KV_REST_API_URL || !process.env.KV_REST_API_TOKEN) {
+        createLogger('storage').warn(
+          { namespace },
+          'KV_REST_API_URL or KV_REST_API_TOKEN not configured, falling back to memory'
+        );
+        return new MemoryStorage<T>();
+      }
+      return new KvStorage<T>(
+        namespace,
+        process.env.KV_REST_API_URL,
+        process.env.KV_REST_API_TOKEN
+      );
+    case 'memory':
+      return new MemoryStorage<T>();
+    default:
+      createLogger('storage').warn(
+        { namespace, backend },
+        `Unknown storage backend "${backend}", falling back to memory`
+      );
+      return new MemoryStorage<T>();
+  }
+}
+
+// Create a storage for state that must be shared between serverless
+// instances (e.g. the queue written by the webhook and drained by the cron);
+// in production only the kv backend qualifies, since memory and file entries
+// are lost whenever the instance is recycled
+export function createDurableStorage<T>(namespace: string): KeyValueStorage<T> {
+  const backend = (process.env.STORAGE_BACKEND as StorageBackend) || 'memory';
+  const kvConfigured =
+    !!process.env.KV_REST_API_URL && !!process.env.KV_REST_API_TOKEN;
+
+  if (isProductionRuntime() && (backend !== 'kv' || !kvConfigured)) {
+    throw new Error(
+      `Storage namespace "${namespace}" requires STORAGE_BACKEND=kv with KV_REST_API_URL and KV_REST_API_TOKEN in production`
+    );
+  }
+
+  return createStorage<T>(namespace, backend);
+}
+
+// `next build` also runs with NODE_ENV=production while collecting page data
+function isProductionRuntime() {
+  return (
+    process.env.NODE_ENV === 'production' &&
+    process.env.NEXT_PHASE !== 'phase-production-build'
+  );
+}
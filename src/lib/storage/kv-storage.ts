@@ -0,0 +1,98 @@
+import { KeyValueStorage } from './types';
+
+// Keys requested per SCAN call; a hint, Redis may return more or fewer
+const SCAN_COUNT = 100;
+
+// Stores entries in a Redis-compatible KV store through its REST API
+// (Upstash / Vercel KV), prefixing every key with the namespace
+export class KvStorage<T> implements KeyValueStorage<T> {
+  constructor(
+    private namespace: string,
+    private url: string,
+    private token: string
+  ) {}
+
+  async get(key: string): Promise<T | null> {
+    const value = await this.command<string | null>([
+      'GET',
+      this.storageKey(key),
+    ]);
+    return value === null ? null : (JSON.parse(value) as T);
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    await this.command(['SET', this.storageKey(key), JSON.stringify(value)]);
+  }
+
+  async setIfAbsent(key: string, value: T): Promise<boolean> {
+    const result = await this.command<string | null>([
+      'SET',
+      this.storageKey(key),
+      JSON.stringify(value),
+      'NX',
+    ]);
+    return result === 'OK';
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(['DEL', this.storageKey(key)]);
+  }
+
+  // Walks the namespace with SCAN rather than KEYS, which blocks the server
+  // while it goes over every key. SCAN may return a key more than once.
+  async list(): Promise<T[]> {
+    const keys = new Set<string>();
+    let cursor = '0';
+    do {
+      const [nextCursor, batch] = await this.command<[string, string[]]>([
+        'SCAN',
+        cursor,
+        'MATCH',
+        `${this.namespace}:*`,
+        'COUNT',
+        String(SCAN_COUNT),
+      ]);
+      batch.forEach((key) => keys.add(key));
+      cursor = nextCursor;
+    } while (cursor !== '0');
+
+    const allKeys = Array.from(keys);
+    const entries: T[] = [];
+    for (let start = 0; start < allKeys.length; start += SCAN_COUNT) {
+      const values = await this.command<Array<string | null>>([
+        'MGET',
+        ...allKeys.slice(start, start + SCAN_COUNT),
+      ]);
+      entries.push(
+        ...values
+          .filter((value): value is string => value !== null)
+          .map((value) => JSON.parse(value) as T)
+      );
+    }
+    return entries;
+  }
+
+  private storageKey(key: string) {
+    return `${this.namespace}:${key}`;
+  }
+
+  private async command<R = unknown>(args: string[]): Promise<R> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+    });
+
+    const body = await response.json();
+    if (!response.ok || body.error) {
+      throw new Error(
+        `KV command ${args[0]} failed: ${body.error || response.statusText}`
+      );
+    }
+
+    return body.result as R;
+  }
+}
@@ -0,0 +1,29 @@
+import { KeyValueStorage } from './types';
+
+export class MemoryStorage<T> implements KeyValueStorage<T> {
+  private entries = new Map<string, T>();
+
+  async get(key: string): Promise<T | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async setIfAbsent(key: string, value: T): Promise<boolean> {
+    if (this.entries.has(key)) {
+      return false;
+    }
+    this.entries.set(key, value);
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(): Promise<T[]> {
+    return Array.from(this.entries.values());
+  }
+}
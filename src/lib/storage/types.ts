@@ -0,0 +1,12 @@
+// Minimal key/value contract shared by every persistence backend
+export interface KeyValueStorage<T> {
+  get(key: string): Promise<T | null>;
+  set(key: string, value: T): Promise<void>;
+  // Stores the value only if the key is unset, atomically; false when the
+  // key already existed
+  setIfAbsent(key: string, value: T): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  list(): Promise<T[]>;
+}
+
+export type StorageBackend = 'memory' | 'file' | 'kv';
@@ -1,71 +1,315 @@
 // Linear webhook payload types
-export interface LinearWebhookPayload {
-  action: string;
-  data: {
-    id: string;
-    title?: string;
-    description?: string;
-    estimate?: number; // Story points
-    number?: number;
-    identifier?: string;
-    url?: string;
-    state?: {
-      id: string;
-      name: string;
-      type: string;
-    };
-    assignee?: {
-      id: string;
-      name: string;
-      email: string;
-    };
-    team?: {
-      id: string;
-      name: string;
-    };
-    project?: {
-      id: string;
-      name: string;
-    };
-    cycle?: {
-      id: string;
-      name?: string;
-    };
-    priority?: number;
-    labels?: Array<{
-      id: string;
-      name: string;
-      color: string;
-      parentId?: string;
-    }>;
-    createdAt: string;
-    updatedAt: string;
-  };
-  type: 'Cycle' | 'Issue' | 'Project' | 'Comment';
+export type LinearWebhookAction = 'create' | 'update' | 'remove';
+
+// Fields every Linear webhook delivery carries, whatever the entity
+interface LinearWebhookEnvelope<TType extends string, TData, TUpdatedFrom> {
+  action: LinearWebhookAction;
+  type: TType;
+  data: TData;
+  url?: string;
   organizationId: string;
   webhookTimestamp: number;
   webhookId: string;
-  updatedFrom?: {
-    stateId?: string;
-    updatedAt?: string;
-    sortOrder?: number;
-    startedAt?: string;
-    priority?: number;
-    assigneeId?: string;
-    cycleId?: string;
-    projectId?: string;
-    title?: string;
-    description?: string;
-    estimate?: number;
+  // Previous values of the fields that changed (update actions only)
+  updatedFrom?: TUpdatedFrom;
+}
+
+export interface LinearWebhookLabel {
+  id: string;
+  name: string;
+  color: string;
+  parentId?: string;
+}
+
+export interface IssueWebhookData {
+  id: string;
+  title?: string;
+  description?: string;
+  estimate?: number; // Story points
+  number?: number;
+  identifier?: string;
+  url?: string;
+  state?: {
+    id: string;
+    name: string;
+    type: string;
   };
+  assignee?: {
+    id: string;
+    name: string;
+    email?: string;
+  };
+  team?: {
+    id: string;
+    name: string;
+  };
+  project?: {
+    id: string;
+    name: string;
+  };
+  cycle?: {
+    id: string;
+    name?: string;
+  };
+  priority?: number;
+  labels?: LinearWebhookLabel[];
+  // Foreign keys Linear sends next to the nested objects above
+  teamId?: string;
+  stateId?: string;
+  assigneeId?: string;
+  cycleId?: string;
+  projectId?: string;
+  parentId?: string;
+  labelIds?: string[];
+  dueDate?: string; // YYYY-MM-DD
+  startedAt?: string;
+  completedAt?: string;
+  canceledAt?: string;
+  archivedAt?: string;
+  trashed?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Only the keys that changed are present; null means "previously unset"
+export interface IssueUpdatedFrom {
+  updatedAt?: string;
+  sortOrder?: number;
+  subIssueSortOrder?: number | null;
+  title?: string;
+  description?: string | null;
+  stateId?: string;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  canceledAt?: string | null;
+  priority?: number;
+  estimate?: number | null;
+  assigneeId?: string | null;
+  teamId?: string;
+  cycleId?: string | null;
+  projectId?: string | null;
+  projectMilestoneId?: string | null;
+  parentId?: string | null;
+  labelIds?: string[];
+  dueDate?: string | null;
+  archivedAt?: string | null;
+  trashed?: boolean | null;
 }
 
+export interface CommentWebhookData {
+  id: string;
+  body: string;
+  issueId?: string;
+  userId?: string;
+  issue?: {
+    id: string;
+    title: string;
+  };
+  user?: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommentUpdatedFrom {
+  body?: string;
+  updatedAt?: string;
+  editedAt?: string | null;
+}
+
+export interface ProjectWebhookData {
+  id: string;
+  name: string;
+  description?: string;
+  url?: string;
+  state?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectUpdatedFrom {
+  name?: string;
+  description?: string | null;
+  state?: string;
+  updatedAt?: string;
+}
+
+export interface CycleWebhookData {
+  id: string;
+  number?: number;
+  name?: string;
+  startsAt?: string;
+  endsAt?: string;
+  completedAt?: string;
+  teamId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CycleUpdatedFrom {
+  name?: string | null;
+  startsAt?: string;
+  endsAt?: string;
+  completedAt?: string | null;
+  updatedAt?: string;
+}
+
+export interface IssueLabelWebhookData {
+  id: string;
+  name: string;
+  color: string;
+  parentId?: string;
+  teamId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IssueLabelUpdatedFrom {
+  name?: string;
+  color?: string;
+  parentId?: string | null;
+  updatedAt?: string;
+}
+
+export type ProjectUpdateHealth = 'onTrack' | 'atRisk' | 'offTrack';
+
+export interface ProjectUpdateWebhookData {
+  id: string;
+  body: string;
+  health?: ProjectUpdateHealth;
+  url?: string;
+  projectId: string;
+  userId?: string;
+  project?: {
+    id: string;
+    name: string;
+  };
+  user?: {
+    id: string;
+    name: string;
+  };
+  editedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectUpdateUpdatedFrom {
+  body?: string;
+  health?: ProjectUpdateHealth;
+  editedAt?: string | null;
+  updatedAt?: string;
+}
+
+export interface ReactionWebhookData {
+  id: string;
+  emoji: string;
+  userId?: string;
+  // Exactly one of these points at the entity that was reacted to
+  commentId?: string;
+  issueId?: string;
+  projectUpdateId?: string;
+  user?: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReactionUpdatedFrom {
+  emoji?: string;
+  updatedAt?: string;
+}
+
+export interface AttachmentWebhookData {
+  id: string;
+  title: string;
+  subtitle?: string;
+  url: string;
+  issueId: string;
+  sourceType?: string;
+  creatorId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AttachmentUpdatedFrom {
+  title?: string;
+  subtitle?: string | null;
+  url?: string;
+  updatedAt?: string;
+}
+
+export type IssueWebhookPayload = LinearWebhookEnvelope<
+  'Issue',
+  IssueWebhookData,
+  IssueUpdatedFrom
+>;
+export type CommentWebhookPayload = LinearWebhookEnvelope<
+  'Comment',
+  CommentWebhookData,
+  CommentUpdatedFrom
+>;
+export type ProjectWebhookPayload = LinearWebhookEnvelope<
+  'Project',
+  ProjectWebhookData,
+  ProjectUpdatedFrom
+>;
+export type CycleWebhookPayload = LinearWebhookEnvelope<
+  'Cycle',
+  CycleWebhookData,
+  CycleUpdatedFrom
+>;
+export type IssueLabelWebhookPayload = LinearWebhookEnvelope<
+  'IssueLabel',
+  IssueLabelWebhookData,
+  IssueLabelUpdatedFrom
+>;
+export type ProjectUpdateWebhookPayload = LinearWebhookEnvelope<
+  'ProjectUpdate',
+  ProjectUpdateWebhookData,
+  ProjectUpdateUpdatedFrom
+>;
+export type ReactionWebhookPayload = LinearWebhookEnvelope<
+  'Reaction',
+  ReactionWebhookData,
+  ReactionUpdatedFrom
+>;
+export type AttachmentWebhookPayload = LinearWebhookEnvelope<
+  'Attachment',
+  AttachmentWebhookData,
+  AttachmentUpdatedFrom
+>;
+
+// Every payload the connector accepts, discriminated on `type`
+export type LinearWebhookPayload =
+  | IssueWebhookPayload
+  | CommentWebhookPayload
+  | ProjectWebhookPayload
+  | CycleWebhookPayload
+  | IssueLabelWebhookPayload
+  | ProjectUpdateWebhookPayload
+  | ReactionWebhookPayload
+  | AttachmentWebhookPayload;
+
+export type LinearWebhookType = LinearWebhookPayload['type'];
+
 export interface LinearWebhookContext {
   type: string;
   payload: LinearWebhookPayload;
   headers: Record<string, string>;
 }
 
+export interface WebhookProcessingOptions {
+  // Evaluate which flows would fire without running any of them
+  dryRun?: boolean;
+  // Issue flows that already executed in an earlier attempt of a queued
+  // event; they are not run again so their side effects are not repeated
+  completedFlows?: string[];
+}
+
 export interface LinearIssueState {
   id: string;
   name: string;
@@ -74,6 +318,90 @@ export interface LinearIssueState {
   position?: number;
 }
 
+// A state change recorded in an issue's history
+export interface LinearIssueStateTransition {
+  createdAt: string;
+  fromState: LinearIssueState;
+  toState: LinearIssueState;
+}
+
+export interface LinearLabel {
+  id: string;
+  name: string;
+  color: string;
+  parentId?: string;
+}
+
+export interface LinearUser {
+  id: string;
+  name: string;
+  email?: string;
+  avatarUrl?: string;
+}
+
+export interface LinearCycle {
+  id: string;
+  number: number;
+  name?: string;
+}
+
+export interface LinearProject {
+  id: string;
+  name: string;
+}
+
+export interface LinearTeam {
+  id: string;
+  name: string;
+  key?: string;
+}
+
+export interface LinearIssueReference {
+  id: string;
+  identifier?: string;
+  title?: string;
+}
+
+// Blocking relations seen from the issue itself: 'blocked_by' is Linear's
+// inverse "blocks" relation
+export interface LinearIssueRelation {
+  type: 'blocks' | 'blocked_by';
+  issue: LinearIssueReference;
+}
+
+// Result of resolving a batch of entity IDs in a single request
+export interface LinearEntityLookup {
+  users: LinearUser[];
+  cycles: LinearCycle[];
+  projects: LinearProject[];
+  labels: LinearLabel[];
+  teams: LinearTeam[];
+  issues: LinearIssueReference[];
+}
+
+export interface LinearComment {
+  id: string;
+  body: string;
+  user: { name: string };
+  createdAt: string;
+}
+
+// Fields accepted by LinearAPI.createIssue (a subset of Linear's IssueCreateInput)
+export interface LinearIssueCreateInput {
+  teamId: string;
+  title: string;
+  description?: string;
+  stateId?: string;
+  assigneeId?: string;
+  labelIds?: string[];
+  priority?: number;
+  estimate?: number;
+  parentId?: string;
+  cycleId?: string;
+  projectId?: string;
+  dueDate?: string; // YYYY-MM-DD
+}
+
 export interface LinearIssue {
   id: string;
   title: string;
@@ -87,16 +415,16 @@ export interface LinearIssue {
     name: string;
     email?: string;
   };
-  labels?: Array<{
-    id: string;
-    name: string;
-    color: string;
-    parentId?: string;
-  }>;
+  labels?: LinearLabel[];
   team?: {
     id: string;
     name: string;
   };
+  // Only populated by queries that select comments
+  comments?: LinearComment[];
+  // State transitions, oldest first; only populated by queries that select
+  // the history, and left out when it could not be fetched completely
+  stateHistory?: LinearIssueStateTransition[];
   createdAt: string;
   updatedAt: string;
 }
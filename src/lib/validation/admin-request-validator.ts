@@ -0,0 +1,66 @@
+import type {
+  DeliveryFilter,
+  ReplayableOutcome,
+  StoredDeliveryOutcome,
+} from '../delivery/delivery-replay';
+import {
+  Schema,
+  ValidationResult,
+  boolean,
+  isoDate,
+  literal,
+  object,
+  optional,
+  string,
+  validate,
+} from './schema';
+
+interface ReplayRequest {
+  eventId?: string;
+  from?: string;
+  to?: string;
+  outcome?: ReplayableOutcome;
+  dryRun?: boolean;
+}
+
+const outcomeSchema: Schema<StoredDeliveryOutcome> = literal(
+  'pending',
+  'processing',
+  'completed',
+  'dead-lettered'
+);
+
+const deliveryFilterSchema: Schema<DeliveryFilter> = object({
+  eventId: optional(string()),
+  from: optional(isoDate()),
+  to: optional(isoDate()),
+  outcome: optional(outcomeSchema),
+});
+
+// Only events the worker is done with can be replayed
+const replayRequestSchema: Schema<ReplayRequest> = object({
+  eventId: optional(string()),
+  from: optional(isoDate()),
+  to: optional(isoDate()),
+  outcome: optional(literal('completed', 'dead-lettered')),
+  dryRun: optional(boolean()),
+});
+
+// Query parameters of GET /api/admin/deliveries; empty ones count as unset
+export function validateDeliveryFilter(
+  searchParams: URLSearchParams
+): ValidationResult<DeliveryFilter> {
+  return validate(deliveryFilterSchema, {
+    eventId: searchParams.get('eventId') || undefined,
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+    outcome: searchParams.get('outcome') || undefined,
+  });
+}
+
+// Body of POST /api/admin/deliveries/replay
+export function validateReplayRequest(
+  body: unknown
+): ValidationResult<ReplayRequest> {
+  return validate(replayRequestSchema, body);
+}
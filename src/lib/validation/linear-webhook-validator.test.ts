@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  unsupportedWebhookType,
+  validateLinearWebhookPayload,
+} from './linear-webhook-validator';
+
+function issuePayload(data: Record<string, unknown> = {}) {
+  return {
+    action: 'update',
+    type: 'Issue',
+    organizationId: 'org-1',
+    webhookId: 'webhook-1',
+    webhookTimestamp: 1736499600000,
+    data: {
+      id: 'issue-1',
+      title: 'Add payment step',
+      labels: [{ id: 'label-1', name: 'Story: Checkout', color: '#4ea7fc' }],
+      createdAt: '2025-01-10T09:00:00.000Z',
+      updatedAt: '2025-01-10T09:00:00.000Z',
+      ...data,
+    },
+    updatedFrom: { stateId: 'state-todo', assigneeId: null },
+  };
+}
+
+describe('validateLinearWebhookPayload', () => {
+  it('accepts a well-formed issue payload', () => {
+    const result = validateLinearWebhookPayload(issuePayload());
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('keeps fields the schema does not describe', () => {
+    const result = validateLinearWebhookPayload({
+      ...issuePayload(),
+      createdAt: '2025-01-10T09:00:00.000Z',
+    });
+
+    expect(result.valid && result.value).toMatchObject({
+      createdAt: '2025-01-10T09:00:00.000Z',
+    });
+  });
+
+  it('reports every issue with its path', () => {
+    const result = validateLinearWebhookPayload(
+      issuePayload({ priority: 'high', labels: [{ id: 'label-1' }] })
+    );
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.issues).toEqual([
+      { path: 'data.priority', message: 'Expected number, received string' },
+      {
+        path: 'data.labels[0].name',
+        message: 'Expected string, received undefined',
+      },
+      {
+        path: 'data.labels[0].color',
+        message: 'Expected string, received undefined',
+      },
+    ]);
+  });
+
+  it('rejects a missing envelope field', () => {
+    const payload: Record<string, unknown> = issuePayload();
+    delete payload.webhookId;
+
+    const result = validateLinearWebhookPayload(payload);
+
+    expect(!result.valid && result.issues.map((issue) => issue.path)).toEqual([
+      'webhookId',
+    ]);
+  });
+
+  it('rejects an unknown action', () => {
+    const result = validateLinearWebhookPayload({
+      ...issuePayload(),
+      action: 'archive',
+    });
+
+    expect(!result.valid && result.issues.map((issue) => issue.path)).toEqual([
+      'action',
+    ]);
+  });
+});
+
+describe('unsupportedWebhookType', () => {
+  it('returns the type of payloads without a schema', () => {
+    expect(unsupportedWebhookType({ type: 'Document' })).toBe('Document');
+    expect(unsupportedWebhookType({ type: 'toString' })).toBe('toString');
+  });
+
+  it('returns null for supported types and payloads without a type', () => {
+    expect(unsupportedWebhookType(issuePayload())).toBeNull();
+    expect(unsupportedWebhookType({})).toBeNull();
+    expect(unsupportedWebhookType(null)).toBeNull();
+  });
+});
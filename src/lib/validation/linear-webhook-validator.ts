@@ -0,0 +1,335 @@
+import {
+  AttachmentUpdatedFrom,
+  AttachmentWebhookData,
+  AttachmentWebhookPayload,
+  CommentUpdatedFrom,
+  CommentWebhookData,
+  CommentWebhookPayload,
+  CycleUpdatedFrom,
+  CycleWebhookData,
+  CycleWebhookPayload,
+  IssueLabelUpdatedFrom,
+  IssueLabelWebhookData,
+  IssueLabelWebhookPayload,
+  IssueUpdatedFrom,
+  IssueWebhookData,
+  IssueWebhookPayload,
+  LinearWebhookLabel,
+  LinearWebhookPayload,
+  ProjectUpdatedFrom,
+  ProjectWebhookData,
+  ProjectWebhookPayload,
+  ProjectUpdateUpdatedFrom,
+  ProjectUpdateWebhookData,
+  ProjectUpdateWebhookPayload,
+  ReactionUpdatedFrom,
+  ReactionWebhookData,
+  ReactionWebhookPayload,
+} from '../types/linear-webhook';
+import {
+  Schema,
+  ValidationResult,
+  array,
+  boolean,
+  discriminatedUnion,
+  literal,
+  nullish,
+  number,
+  object,
+  optional,
+  string,
+  validate,
+} from './schema';
+
+const action = () => literal('create', 'update', 'remove');
+
+const labelSchema: Schema<LinearWebhookLabel> = object({
+  id: string(),
+  name: string(),
+  color: string(),
+  parentId: optional(string()),
+});
+
+const issueDataSchema: Schema<IssueWebhookData> = object({
+  id: string(),
+  title: optional(string()),
+  description: optional(string()),
+  estimate: optional(number()),
+  number: optional(number()),
+  identifier: optional(string()),
+  url: optional(string()),
+  state: optional(object({ id: string(), name: string(), type: string() })),
+  assignee: optional(
+    object({ id: string(), name: string(), email: optional(string()) })
+  ),
+  team: optional(object({ id: string(), name: string() })),
+  project: optional(object({ id: string(), name: string() })),
+  cycle: optional(object({ id: string(), name: optional(string()) })),
+  priority: optional(number()),
+  labels: optional(array(labelSchema)),
+  teamId: optional(string()),
+  stateId: optional(string()),
+  assigneeId: optional(string()),
+  cycleId: optional(string()),
+  projectId: optional(string()),
+  parentId: optional(string()),
+  labelIds: optional(array(string())),
+  dueDate: optional(string()),
+  startedAt: optional(string()),
+  completedAt: optional(string()),
+  canceledAt: optional(string()),
+  archivedAt: optional(string()),
+  trashed: optional(boolean()),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const issueUpdatedFromSchema: Schema<IssueUpdatedFrom> = object({
+  updatedAt: optional(string()),
+  sortOrder: optional(number()),
+  subIssueSortOrder: nullish(number()),
+  title: optional(string()),
+  description: nullish(string()),
+  stateId: optional(string()),
+  startedAt: nullish(string()),
+  completedAt: nullish(string()),
+  canceledAt: nullish(string()),
+  priority: optional(number()),
+  estimate: nullish(number()),
+  assigneeId: nullish(string()),
+  teamId: optional(string()),
+  cycleId: nullish(string()),
+  projectId: nullish(string()),
+  projectMilestoneId: nullish(string()),
+  parentId: nullish(string()),
+  labelIds: optional(array(string())),
+  dueDate: nullish(string()),
+  archivedAt: nullish(string()),
+  trashed: nullish(boolean()),
+});
+
+const commentDataSchema: Schema<CommentWebhookData> = object({
+  id: string(),
+  body: string(),
+  issueId: optional(string()),
+  userId: optional(string()),
+  issue: optional(object({ id: string(), title: string() })),
+  user: optional(object({ id: string(), name: string() })),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const commentUpdatedFromSchema: Schema<CommentUpdatedFrom> = object({
+  body: optional(string()),
+  updatedAt: optional(string()),
+  editedAt: nullish(string()),
+});
+
+const projectDataSchema: Schema<ProjectWebhookData> = object({
+  id: string(),
+  name: string(),
+  description: optional(string()),
+  url: optional(string()),
+  state: optional(string()),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const projectUpdatedFromSchema: Schema<ProjectUpdatedFrom> = object({
+  name: optional(string()),
+  description: nullish(string()),
+  state: optional(string()),
+  updatedAt: optional(string()),
+});
+
+const cycleDataSchema: Schema<CycleWebhookData> = object({
+  id: string(),
+  number: optional(number()),
+  name: optional(string()),
+  startsAt: optional(string()),
+  endsAt: optional(string()),
+  completedAt: optional(string()),
+  teamId: optional(string()),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const cycleUpdatedFromSchema: Schema<CycleUpdatedFrom> = object({
+  name: nullish(string()),
+  startsAt: optional(string()),
+  endsAt: optional(string()),
+  completedAt: nullish(string()),
+  updatedAt: optional(string()),
+});
+
+const issueLabelDataSchema: Schema<IssueLabelWebhookData> = object({
+  id: string(),
+  name: string(),
+  color: string(),
+  parentId: optional(string()),
+  teamId: optional(string()),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const issueLabelUpdatedFromSchema: Schema<IssueLabelUpdatedFrom> = object({
+  name: optional(string()),
+  color: optional(string()),
+  parentId: nullish(string()),
+  updatedAt: optional(string()),
+});
+
+const projectUpdateDataSchema: Schema<ProjectUpdateWebhookData> = object({
+  id: string(),
+  body: string(),
+  health: optional(literal('onTrack', 'atRisk', 'offTrack')),
+  url: optional(string()),
+  projectId: string(),
+  userId: optional(string()),
+  project: optional(object({ id: string(), name: string() })),
+  user: optional(object({ id: string(), name: string() })),
+  editedAt: optional(string()),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const projectUpdateUpdatedFromSchema: Schema<ProjectUpdateUpdatedFrom> = object(
+  {
+    body: optional(string()),
+    health: optional(literal('onTrack', 'atRisk', 'offTrack')),
+    editedAt: nullish(string()),
+    updatedAt: optional(string()),
+  }
+);
+
+const reactionDataSchema: Schema<ReactionWebhookData> = object({
+  id: string(),
+  emoji: string(),
+  userId: optional(string()),
+  commentId: optional(string()),
+  issueId: optional(string()),
+  projectUpdateId: optional(string()),
+  user: optional(object({ id: string(), name: string() })),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const reactionUpdatedFromSchema: Schema<ReactionUpdatedFrom> = object({
+  emoji: optional(string()),
+  updatedAt: optional(string()),
+});
+
+const attachmentDataSchema: Schema<AttachmentWebhookData> = object({
+  id: string(),
+  title: string(),
+  subtitle: optional(string()),
+  url: string(),
+  issueId: string(),
+  sourceType: optional(string()),
+  creatorId: optional(string()),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const attachmentUpdatedFromSchema: Schema<AttachmentUpdatedFrom> = object({
+  title: optional(string()),
+  subtitle: nullish(string()),
+  url: optional(string()),
+  updatedAt: optional(string()),
+});
+
+// Envelope fields are shared; `type` is checked by the discriminated union
+function envelope<TType extends string, TData, TUpdatedFrom>(
+  type: TType,
+  data: Schema<TData>,
+  updatedFrom: Schema<TUpdatedFrom>
+) {
+  return object({
+    action: action(),
+    type: literal(type),
+    data,
+    url: optional(string()),
+    organizationId: string(),
+    webhookTimestamp: number(),
+    webhookId: string(),
+    updatedFrom: optional(updatedFrom),
+  });
+}
+
+const issuePayloadSchema: Schema<IssueWebhookPayload> = envelope(
+  'Issue',
+  issueDataSchema,
+  issueUpdatedFromSchema
+);
+const commentPayloadSchema: Schema<CommentWebhookPayload> = envelope(
+  'Comment',
+  commentDataSchema,
+  commentUpdatedFromSchema
+);
+const projectPayloadSchema: Schema<ProjectWebhookPayload> = envelope(
+  'Project',
+  projectDataSchema,
+  projectUpdatedFromSchema
+);
+const cyclePayloadSchema: Schema<CycleWebhookPayload> = envelope(
+  'Cycle',
+  cycleDataSchema,
+  cycleUpdatedFromSchema
+);
+const issueLabelPayloadSchema: Schema<IssueLabelWebhookPayload> = envelope(
+  'IssueLabel',
+  issueLabelDataSchema,
+  issueLabelUpdatedFromSchema
+);
+const projectUpdatePayloadSchema: Schema<ProjectUpdateWebhookPayload> =
+  envelope(
+    'ProjectUpdate',
+    projectUpdateDataSchema,
+    projectUpdateUpdatedFromSchema
+  );
+const reactionPayloadSchema: Schema<ReactionWebhookPayload> = envelope(
+  'Reaction',
+  reactionDataSchema,
+  reactionUpdatedFromSchema
+);
+const attachmentPayloadSchema: Schema<AttachmentWebhookPayload> = envelope(
+  'Attachment',
+  attachmentDataSchema,
+  attachmentUpdatedFromSchema
+);
+
+const payloadSchemas = {
+  Issue: issuePayloadSchema,
+  Comment: commentPayloadSchema,
+  Project: projectPayloadSchema,
+  Cycle: cyclePayloadSchema,
+  IssueLabel: issueLabelPayloadSchema,
+  ProjectUpdate: projectUpdatePayloadSchema,
+  Reaction: reactionPayloadSchema,
+  Attachment: attachmentPayloadSchema,
+};
+
+const linearWebhookPayloadSchema: Schema<LinearWebhookPayload> =
+  discriminatedUnion('type', payloadSchemas);
+
+// Check a parsed request body against the payload shape of its entity type
+export function validateLinearWebhookPayload(
+  body: unknown
+): ValidationResult<LinearWebhookPayload> {
+  return validate(linearWebhookPayloadSchema, body);
+}
+
+// The entity type of a payload we have no schema for (e.g. a webhook type
+// Linear added later), or null when it is one we validate or no type is
+// given at all
+export function unsupportedWebhookType(body: unknown): string | null {
+  const type =
+    typeof body === 'object' && body !== null
+      ? (body as Record<string, unknown>).type
+      : undefined;
+
+  return typeof type === 'string' &&
+    !Object.prototype.hasOwnProperty.call(payloadSchemas, type)
+    ? type
+    : null;
+}
@@ -0,0 +1,199 @@
+// Tiny runtime schema helpers. Each schema checks an unknown value, records
+// issues with their JSON path and returns the value typed as T. Declaring a
+// schema as Schema<SomeInterface> lets the compiler check it matches the type.
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  parse(value: unknown, path: string, issues: ValidationIssue[]): T;
+}
+
+export type ValidationResult<T> =
+  { valid: true; value: T } | { valid: false; issues: ValidationIssue[] };
+
+export function validate<T>(
+  schema: Schema<T>,
+  value: unknown
+): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const parsed = schema.parse(value, '', issues);
+  return issues.length === 0
+    ? { valid: true, value: parsed }
+    : { valid: false, issues };
+}
+
+function describe(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number) {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(expected: 'string' | 'number' | 'boolean'): Schema<T> {
+  return {
+    parse(value, path, issues) {
+      if (
+        typeof value !== expected ||
+        (expected === 'number' && !Number.isFinite(value))
+      ) {
+        issues.push({
+          path,
+          message: `Expected ${expected}, received ${describe(value)}`,
+        });
+      }
+      return value as T;
+    },
+  };
+}
+
+export const string = () => primitive<string>('string');
+export const number = () => primitive<number>('number');
+export const boolean = () => primitive<boolean>('boolean');
+
+// A date string (e.g. 2024-01-01 or an ISO timestamp), normalized to an ISO
+// timestamp so it compares correctly with stored ones
+export function isoDate(): Schema<string> {
+  return {
+    parse(value, path, issues) {
+      const time = typeof value === 'string' ? Date.parse(value) : NaN;
+      if (Number.isNaN(time)) {
+        issues.push({
+          path,
+          message: `Expected a date, received ${JSON.stringify(value)}`,
+        });
+        return value as string;
+      }
+      return new Date(time).toISOString();
+    },
+  };
+}
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return {
+    parse(value, path, issues) {
+      if (!values.includes(value as T)) {
+        issues.push({
+          path,
+          message: `Expected one of ${values
+            .map((v) => `"${v}"`)
+            .join(', ')}, received ${JSON.stringify(value)}`,
+        });
+      }
+      return value as T;
+    },
+  };
+}
+
+// Missing and null values are both accepted and normalized to undefined
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse(value, path, issues) {
+      if (value === undefined || value === null) {
+        return undefined;
+      }
+      return schema.parse(value, path, issues);
+    },
+  };
+}
+
+// Like optional, but keeps null: used where null carries meaning, e.g.
+// updatedFrom.cycleId === null means "previously had no cycle"
+export function nullish<T>(schema: Schema<T>): Schema<T | null | undefined> {
+  return {
+    parse(value, path, issues) {
+      if (value === undefined || value === null) {
+        return value;
+      }
+      return schema.parse(value, path, issues);
+    },
+  };
+}
+
+export function array<T>(schema: Schema<T>): Schema<T[]> {
+  return {
+    parse(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({
+          path,
+          message: `Expected array, received ${describe(value)}`,
+        });
+        return [];
+      }
+      return value.map((item, index) =>
+        schema.parse(item, joinPath(path, index), issues)
+      );
+    },
+  };
+}
+
+// Checks the declared keys; keys Linear sends that we do not model are kept
+export function object<T extends object>(shape: {
+  [K in keyof T]-?: Schema<T[K]>;
+}): Schema<T> {
+  return {
+    parse(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({
+          path,
+          message: `Expected object, received ${describe(value)}`,
+        });
+        return value as T;
+      }
+
+      const input = value as Record<string, unknown>;
+      const parsed: Record<string, unknown> = { ...input };
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        const result = shape[key].parse(
+          input[key],
+          joinPath(path, key),
+          issues
+        );
+        if (result === undefined) {
+          delete parsed[key];
+        } else {
+          parsed[key] = result;
+        }
+      }
+      return parsed as T;
+    },
+  };
+}
+
+// Picks the schema for an object by the value of its discriminator key
+export function discriminatedUnion<
+  K extends string,
+  S extends Record<string, Schema<object>>,
+>(key: K, schemas: S): Schema<S[keyof S] extends Schema<infer T> ? T : never> {
+  return {
+    parse(value, path, issues) {
+      const discriminator =
+        typeof value === 'object' && value !== null
+          ? (value as Record<string, unknown>)[key]
+          : undefined;
+
+      if (
+        typeof discriminator !== 'string' ||
+        !Object.prototype.hasOwnProperty.call(schemas, discriminator)
+      ) {
+        issues.push({
+          path: joinPath(path, key),
+          message: `Unsupported ${key} ${JSON.stringify(
+            discriminator
+          )}, expected one of ${Object.keys(schemas)
+            .map((name) => `"${name}"`)
+            .join(', ')}`,
+        });
+        return value as never;
+      }
+
+      return schemas[discriminator].parse(value, path, issues) as never;
+    },
+  };
+}
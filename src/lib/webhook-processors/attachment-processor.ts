@@ -0,0 +1,23 @@
+import { AttachmentWebhookPayload } from '../types/linear-webhook';
+import { createLogger } from '../logger';
+
+export function processAttachmentWebhook(payload: AttachmentWebhookPayload) {
+  const { action, data } = payload;
+  const log = createLogger('attachment-processor', {
+    attachmentId: data.id,
+    action,
+    organizationId: payload.organizationId,
+  });
+
+  log.info(
+    {
+      attachmentId: data.id,
+      issueId: data.issueId,
+      title: data.title,
+      sourceType: data.sourceType,
+    },
+    `Attachment ${action} for issue: ${data.issueId}`
+  );
+
+  return { success: true, action, attachmentId: data.id };
+}
@@ -1,7 +1,7 @@
-import { LinearWebhookPayload } from '../types/linear-webhook';
+import { CommentWebhookPayload } from '../types/linear-webhook';
 import { createLogger } from '../logger';
 
-export function processCommentWebhook(payload: LinearWebhookPayload) {
+export function processCommentWebhook(payload: CommentWebhookPayload) {
   const { action, data } = payload;
   const log = createLogger('comment-processor', {
     commentId: data.id,
@@ -12,9 +12,9 @@ export function processCommentWebhook(payload: LinearWebhookPayload) {
   log.info(
     {
       commentId: data.id,
-      issueId: data.id, // Assuming comment data has issue context
+      issueId: data.issueId || data.issue?.id,
     },
-    `Comment ${action} for issue: ${data.id}`
+    `Comment ${action} for issue: ${data.issueId || data.issue?.id}`
   );
   // Add your comment processing logic here
 
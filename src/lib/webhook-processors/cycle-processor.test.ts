@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { isReopen } from './cycle-processor';
+import { LinearIssueState } from '../types/linear-webhook';
+
+const states: Record<string, LinearIssueState> = {
+  backlog: { id: 'backlog', name: 'Backlog', type: 'backlog', position: 0 },
+  todo: { id: 'todo', name: 'Todo', type: 'unstarted', position: 1 },
+  inProgress: {
+    id: 'in-progress',
+    name: 'In Progress',
+    type: 'started',
+    position: 2,
+  },
+  qa: { id: 'qa', name: 'QA Testing', type: 'started', position: 3 },
+  done: { id: 'done', name: 'Done', type: 'completed', position: 4 },
+  canceled: { id: 'canceled', name: 'Canceled', type: 'canceled' },
+};
+
+function move(from: keyof typeof states, to: keyof typeof states) {
+  return isReopen({
+    createdAt: '2025-01-10T09:00:00.000Z',
+    fromState: states[from],
+    toState: states[to],
+  });
+}
+
+describe('isReopen', () => {
+  it('counts a completed issue moved back to a started or unstarted state', () => {
+    expect(move('done', 'inProgress')).toBe(true);
+    expect(move('done', 'todo')).toBe(true);
+  });
+
+  it('counts a started issue moved back to an earlier state', () => {
+    expect(move('inProgress', 'todo')).toBe(true);
+    expect(move('inProgress', 'backlog')).toBe(true);
+  });
+
+  it('counts a move to an earlier position within started', () => {
+    expect(move('qa', 'inProgress')).toBe(true);
+  });
+
+  it('does not count forward moves', () => {
+    expect(move('todo', 'inProgress')).toBe(false);
+    expect(move('inProgress', 'qa')).toBe(false);
+    expect(move('qa', 'done')).toBe(false);
+  });
+
+  it('does not count moves between states that were never started', () => {
+    expect(move('todo', 'backlog')).toBe(false);
+  });
+
+  it('does not count moves to or from canceled states', () => {
+    expect(move('done', 'canceled')).toBe(false);
+    expect(move('canceled', 'todo')).toBe(false);
+  });
+
+  it('does not count moves within started when a position is missing', () => {
+    expect(
+      isReopen({
+        createdAt: '2025-01-10T09:00:00.000Z',
+        fromState: { ...states.qa, position: undefined },
+        toState: states.inProgress,
+      })
+    ).toBe(false);
+  });
+});
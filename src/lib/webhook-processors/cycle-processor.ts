@@ -1,10 +1,27 @@
-import { LinearWebhookPayload } from '../types/linear-webhook';
+import {
+  CycleWebhookData,
+  CycleWebhookPayload,
+  LinearIssueState,
+  LinearIssueStateTransition,
+  WebhookProcessingOptions,
+} from '../types/linear-webhook';
 import { linearApi } from '../api/linear-api';
 import { sliteApi } from '../api/slite-api';
 import { createLogger } from '../logger';
+import { dryRun } from '../delivery/dry-run';
 
 const RETROSPECTIVE_NODE_ID = process.env.SLITE_RETRO_COLLECTION_ID || '';
 
+// Order of Linear workflow state types; moving to a lower rank (or to an
+// earlier position within the same type) is moving an issue backwards
+const STATE_TYPE_RANK: Record<string, number> = {
+  triage: 0,
+  backlog: 1,
+  unstarted: 2,
+  started: 3,
+  completed: 4,
+};
+
 interface CycleIssue {
   id: string;
   title: string;
@@ -29,18 +46,11 @@ interface CycleIssue {
     };
     createdAt: string;
   }>;
+  stateHistory?: LinearIssueStateTransition[];
+  // Unset when the state history could not be fetched
   reopenedCount?: number;
 }
 
-interface CycleData {
-  id: string;
-  title?: string;
-  name?: string;
-  completedAt?: string;
-  startsAt?: string;
-  endsAt?: string;
-}
-
 interface AssigneeStats {
   name: string;
   totalStoryPoints: number;
@@ -48,7 +58,10 @@ interface AssigneeStats {
   statusPercentages: Record<string, number>; // status -> percentage
 }
 
-export async function processCycleWebhook(payload: LinearWebhookPayload) {
+export async function processCycleWebhook(
+  payload: CycleWebhookPayload,
+  options: WebhookProcessingOptions = {}
+) {
   const { action, data } = payload;
   const log = createLogger('cycle-processor', {
     cycleId: data.id,
@@ -59,27 +72,52 @@ export async function processCycleWebhook(payload: LinearWebhookPayload) {
   log.info(
     {
       cycleId: data.id,
-      cycleTitle: data.title,
+      cycleName: data.name,
       action,
     },
     `Processing cycle webhook: ${action}`
   );
 
+  // Cycle name and dates may have changed; drop the cached copies
+  await linearApi.invalidateCycle(data.id);
+
   // Only process when cycle is completed/closed
-  const cycleData = data as unknown as CycleData;
+  const cycleData = data;
+
+  if (options.dryRun) {
+    const generatesRetrospective =
+      action === 'update' && !!cycleData.completedAt;
+    return {
+      success: true,
+      dryRun: true,
+      action,
+      cycleId: data.id,
+      flows: [
+        {
+          flow: 'cycle-retrospective',
+          wouldRun: generatesRetrospective,
+          reason: generatesRetrospective
+            ? 'Cycle completed'
+            : 'Cycle not completed in this update',
+        },
+      ],
+    };
+  }
 
   if (action === 'update' && cycleData.completedAt) {
     log.info(
       {
         cycleId: cycleData.id,
-        cycleName: cycleData.title,
+        cycleName: cycleData.name,
         completedAt: cycleData.completedAt,
       },
       'Cycle completed, generating retrospective'
     );
 
     try {
-      await generateCycleRetrospective(cycleData);
+      await dryRun.runFlow('cycle-retrospective', () =>
+        generateCycleRetrospective(cycleData)
+      );
       return {
         success: true,
         action: 'retrospective-created',
@@ -91,7 +129,7 @@ export async function processCycleWebhook(payload: LinearWebhookPayload) {
           error: error instanceof Error ? error.message : String(error),
           stack: error instanceof Error ? error.stack : undefined,
           cycleId: cycleData.id,
-          cycleName: cycleData.title,
+          cycleName: cycleData.name,
         },
         'Error generating cycle retrospective'
       );
@@ -107,20 +145,25 @@ export async function processCycleWebhook(payload: LinearWebhookPayload) {
   return { success: true, action, cycleId: data.id };
 }
 
-async function generateCycleRetrospective(cycleData: CycleData) {
+async function generateCycleRetrospective(cycleData: CycleWebhookData) {
   const log = createLogger('cycle-retrospective', { cycleId: cycleData.id });
-  const cycleName =
-    cycleData.title || cycleData.name || `Cycle-${cycleData.id}`;
+  const cycleName = cycleData.name || `Cycle-${cycleData.id}`;
   const retrospectiveTitle = `Retrospective-${cycleName}`;
 
   log.info({ cycleName, retrospectiveTitle }, 'Generating cycle retrospective');
 
-  // 1. Fetch all issues in the cycle
+  // 1. Fetch all issues in the cycle, with their comments and state history
   const cycleIssues = await fetchCycleIssues(cycleData.id);
+  if (!cycleIssues) {
+    throw new Error('Failed to fetch cycle issues from Linear');
+  }
   log.info({ issueCount: cycleIssues.length }, 'Fetched cycle issues');
 
-  // 2. Fetch comments for each issue and analyze them
-  const issuesWithAnalysis = await analyzeIssuesAndComments(cycleIssues);
+  // 2. Count reopen events from each issue's state history
+  const issuesWithAnalysis = analyzeIssuesAndComments(
+    cycleIssues,
+    cycleData.startsAt
+  );
 
   // 3. Calculate assignee statistics
   const assigneeStats = calculateAssigneeStats(issuesWithAnalysis);
@@ -148,6 +191,9 @@ async function generateCycleRetrospective(cycleData: CycleData) {
       existingDoc.id,
       retrospectiveContent
     );
+    if (!result) {
+      throw new Error('Failed to update retrospective document in Slite');
+    }
     return result;
   } else {
     log.info('Creating new retrospective document in specified node');
@@ -156,15 +202,21 @@ async function generateCycleRetrospective(cycleData: CycleData) {
       retrospectiveContent,
       RETROSPECTIVE_NODE_ID
     );
+    if (!result) {
+      throw new Error('Failed to create retrospective document in Slite');
+    }
     return result;
   }
 }
 
-async function fetchCycleIssues(cycleId: string): Promise<CycleIssue[]> {
+async function fetchCycleIssues(cycleId: string): Promise<CycleIssue[] | null> {
   const log = createLogger('cycle-issues-fetch', { cycleId });
 
   try {
-    const issues = await linearApi.getIssuesByCycle(cycleId);
+    const issues = await linearApi.getIssuesByCycleWithComments(cycleId);
+    if (!issues) {
+      return null;
+    }
 
     // Convert LinearIssue to CycleIssue format
     return issues.map((issue) => ({
@@ -176,8 +228,8 @@ async function fetchCycleIssues(cycleId: string): Promise<CycleIssue[]> {
       estimate: issue.estimate,
       state: issue.state,
       assignee: issue.assignee,
-      comments: [], // Will be populated later
-      reopenedCount: 0, // Will be calculated from comments
+      comments: issue.comments || [],
+      stateHistory: issue.stateHistory,
     }));
   } catch (error) {
     log.error(
@@ -187,66 +239,77 @@ async function fetchCycleIssues(cycleId: string): Promise<CycleIssue[]> {
       },
       'Error fetching cycle issues'
     );
-    return [];
+    return null;
   }
 }
 
-async function analyzeIssuesAndComments(
-  issues: CycleIssue[]
-): Promise<CycleIssue[]> {
+function analyzeIssuesAndComments(
+  issues: CycleIssue[],
+  cycleStartsAt?: string
+): CycleIssue[] {
   const log = createLogger('issue-analysis');
 
   for (const issue of issues) {
-    log.debug({ issueId: issue.id }, 'Analyzing issue comments');
-
-    try {
-      // Fetch comments for each issue
-      const comments = await linearApi.getIssueComments(issue.id);
-      issue.comments = comments;
-
-      // Analyze comments to count reopening events
-      // Look for patterns like "reopened", "back to", "moved to Todo/In Progress"
-      const reopenKeywords = [
-        'reopened',
-        'back to todo',
-        'back to in progress',
-        'moved to todo',
-        'moved to in progress',
-        'reverted',
-        'rolled back',
-      ];
-
-      issue.reopenedCount = comments.filter((comment) =>
-        reopenKeywords.some((keyword) =>
-          comment.body.toLowerCase().includes(keyword.toLowerCase())
-        )
-      ).length;
-
-      log.debug(
-        {
-          issueId: issue.id,
-          commentCount: comments.length,
-          reopenedCount: issue.reopenedCount,
-        },
-        'Analyzed issue comments'
+    const history = issue.stateHistory;
+    if (!history) {
+      // Listed as unknown in the document rather than counted as 0
+      log.warn(
+        { issueId: issue.id, identifier: issue.identifier },
+        'State history unavailable, reopen count unknown'
       );
-    } catch (error) {
-      log.error(
-        {
-          error: error instanceof Error ? error.message : String(error),
-          issueId: issue.id,
-        },
-        'Error analyzing issue comments'
-      );
-
-      issue.comments = [];
-      issue.reopenedCount = 0;
+      continue;
     }
+
+    // Only transitions that happened during this cycle count
+    const transitions = cycleStartsAt
+      ? history.filter((transition) => transition.createdAt >= cycleStartsAt)
+      : history;
+    const reopens = transitions.filter(isReopen);
+    issue.reopenedCount = reopens.length;
+
+    log.debug(
+      {
+        issueId: issue.id,
+        commentCount: issue.comments?.length || 0,
+        transitionCount: transitions.length,
+        reopenedCount: issue.reopenedCount,
+        reopens: reopens.map((r) => `${r.fromState.name} -> ${r.toState.name}`),
+      },
+      'Analyzed issue history'
+    );
   }
 
   return issues;
 }
 
+// A reopen moves a started or completed issue back to an earlier state:
+// a lower state type (e.g. Done -> In Progress, In Progress -> Todo) or an
+// earlier position within "started" (e.g. QA Testing -> In Progress).
+// Moves to or from canceled states are not reopens.
+export function isReopen(transition: LinearIssueStateTransition): boolean {
+  const from = stateRank(transition.fromState);
+  const to = stateRank(transition.toState);
+
+  if (from === undefined || to === undefined) {
+    return false;
+  }
+  if (from < STATE_TYPE_RANK.started) {
+    return false;
+  }
+  if (to !== from) {
+    return to < from;
+  }
+  return (
+    transition.toState.position !== undefined &&
+    transition.fromState.position !== undefined &&
+    transition.toState.position < transition.fromState.position
+  );
+}
+
+function stateRank(state: LinearIssueState): number | undefined {
+  return STATE_TYPE_RANK[state.type];
+}
+
 function calculateAssigneeStats(issues: CycleIssue[]): AssigneeStats[] {
   const assigneeMap = new Map<string, AssigneeStats>();
 
@@ -287,7 +350,7 @@ function calculateAssigneeStats(issues: CycleIssue[]): AssigneeStats[] {
 
 function generateRetrospectiveContent(
   cycleName: string,
-  cycleData: CycleData,
+  cycleData: CycleWebhookData,
   issues: CycleIssue[],
   assigneeStats: AssigneeStats[]
 ): string {
@@ -306,6 +369,9 @@ function generateRetrospectiveContent(
     (issue) => (issue.reopenedCount || 0) > 0
   );
   const totalReopened = reopenedIssues.length;
+  const unknownReopens = issues.filter(
+    (issue) => issue.reopenedCount === undefined
+  );
 
   const content = `__________
 cycle_id: ${cycleData.id}
@@ -320,7 +386,11 @@ __________
 **Completed Story Points:** ${completedStoryPoints}
 **Completion Rate:** ${completionRate.toFixed(1)}%
 **Total Issues:** ${issues.length}
-**Reopened Issues:** ${totalReopened}
+**Reopened Issues:** ${totalReopened}${
+    unknownReopens.length > 0
+      ? ` (reopen count unknown for ${unknownReopens.length} issues)`
+      : ''
+  }
 
 ## 📊 Issues by Person and Status
 
@@ -366,7 +436,9 @@ ${assigneeStats
 
 ${
   totalReopened === 0
-    ? '✅ **No issues were reopened during this cycle.**'
+    ? unknownReopens.length === 0
+      ? '✅ **No issues were reopened during this cycle.**'
+      : '**No reopens found among the issues with a known history.**'
     : `⚠️ **${totalReopened} issues were reopened:**
 
 ${reopenedIssues
@@ -383,7 +455,16 @@ ${reopenedIssues
 - Integration problems
 - Missing edge cases`
 }
-
+${
+  unknownReopens.length === 0
+    ? ''
+    : `
+_Reopen count unknown (state history could not be fetched):_
+${unknownReopens
+  .map((issue) => `- [${issue.identifier}] ${issue.title}`)
+  .join('\n')}
+`
+}
 ## 💬 Common Issues from Comments
 
 _Analysis of issue comments to identify recurring problems:_
@@ -0,0 +1,65 @@
+import {
+  LinearWebhookContext,
+  WebhookProcessingOptions,
+} from '../types/linear-webhook';
+import { processIssueWebhook } from './issue';
+import { processCommentWebhook } from './comment-processor';
+import { processProjectWebhook } from './project-processor';
+import { processCycleWebhook } from './cycle-processor';
+import { processIssueLabelWebhook } from './issue-label-processor';
+import { processProjectUpdateWebhook } from './project-update-processor';
+import { processReactionWebhook } from './reaction-processor';
+import { processAttachmentWebhook } from './attachment-processor';
+import { createWebhookLogger } from '../logger';
+
+// Process different types of Linear webhook events
+export async function processLinearWebhook(
+  context: LinearWebhookContext,
+  options: WebhookProcessingOptions = {}
+) {
+  const { type, payload } = context;
+  const log = createWebhookLogger(
+    type,
+    context.headers.webhookId,
+    payload.organizationId
+  );
+
+  log.info(
+    {
+      action: payload.action,
+      entityType: payload.type,
+      entityId: payload.data.id,
+      organizationId: payload.organizationId,
+      dryRun: !!options.dryRun,
+    },
+    `Processing Linear webhook: ${type}`
+  );
+
+  switch (payload.type) {
+    case 'Issue':
+      return await processIssueWebhook(payload, options);
+    case 'Comment':
+      return processCommentWebhook(payload);
+    case 'Project':
+      return processProjectWebhook(payload);
+    case 'Cycle':
+      return await processCycleWebhook(payload, options);
+    case 'IssueLabel':
+      return processIssueLabelWebhook(payload);
+    case 'ProjectUpdate':
+      return processProjectUpdateWebhook(payload);
+    case 'Reaction':
+      return processReactionWebhook(payload);
+    case 'Attachment':
+      return processAttachmentWebhook(payload);
+    default:
+      return assertUnhandledPayload(payload);
+  }
+}
+
+// Compile error here means a LinearWebhookPayload variant has no case above
+function assertUnhandledPayload(payload: never): never {
+  throw new Error(
+    `Unhandled webhook type: ${(payload as { type?: string }).type}`
+  );
+}
@@ -0,0 +1,29 @@
+import { IssueLabelWebhookPayload } from '../types/linear-webhook';
+import { linearApi } from '../api/linear-api';
+import { createLogger } from '../logger';
+
+export async function processIssueLabelWebhook(
+  payload: IssueLabelWebhookPayload
+) {
+  const { action, data } = payload;
+  const log = createLogger('issue-label-processor', {
+    labelId: data.id,
+    action,
+    organizationId: payload.organizationId,
+  });
+
+  log.info(
+    {
+      labelId: data.id,
+      labelName: data.name,
+      parentId: data.parentId,
+      updatedFields: Object.keys(payload.updatedFrom || {}),
+    },
+    `Issue label ${action}: ${data.name}`
+  );
+
+  // Label name, color or parent may have changed; drop the cached copy
+  await linearApi.invalidateLabel(data.id);
+
+  return { success: true, action, labelId: data.id };
+}
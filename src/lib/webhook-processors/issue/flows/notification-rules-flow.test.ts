@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { notificationRulesFlow } from './notification-rules-flow';
+import { evaluateRules } from '../rules/engine';
+import { NotificationRule } from '../rules/types';
+import { IssueChangeDetection } from '../utils/change-detector';
+import { notifier } from '../../../notifications/notifier';
+import { IssueWebhookPayload } from '../../../types/linear-webhook';
+
+const payload: IssueWebhookPayload = {
+  action: 'update',
+  type: 'Issue',
+  organizationId: 'org-1',
+  webhookId: 'webhook-1',
+  webhookTimestamp: 1736499600000,
+  data: {
+    id: 'issue-1',
+    identifier: 'PRD-1',
+    title: 'Add payment step',
+    createdAt: '2025-01-10T09:00:00.000Z',
+    updatedAt: '2025-01-10T09:00:00.000Z',
+  },
+};
+
+const detection: IssueChangeDetection = { hasChanges: true, changes: {} };
+
+function rule(name: string, channel: string): NotificationRule {
+  return { name, when: {}, notify: { channel, text: '{{identifier}}' } };
+}
+
+function matched(rules: NotificationRule[]) {
+  return evaluateRules(rules, payload, detection) as Parameters<
+    typeof notificationRulesFlow.run
+  >[2];
+}
+
+describe('notificationRulesFlow.run', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports each delivery under the rule that sent it', async () => {
+    vi.spyOn(notifier, 'notify').mockImplementation(async (channel) =>
+      channel === 'qa'
+        ? [{ target: 'slack', status: 'sent', attempts: 1 }]
+        : [
+            {
+              target: 'slack-api',
+              status: 'failed',
+              attempts: 3,
+              error: 'ratelimited',
+              retryable: true,
+            },
+          ]
+    );
+
+    const sideEffects = await notificationRulesFlow.run(
+      payload,
+      detection,
+      matched([rule('qa-rule', 'qa'), rule('leads-rule', 'leads')]),
+      []
+    );
+
+    expect(sideEffects).toEqual([
+      {
+        service: 'slack',
+        operation: 'notify (rule qa-rule)',
+        target: 'qa',
+        flow: 'qa-rule',
+        status: 'performed',
+      },
+      {
+        service: 'slack-api',
+        operation: 'notify (rule leads-rule)',
+        target: 'leads',
+        flow: 'leads-rule',
+        status: 'failed',
+        error: 'ratelimited',
+        retryable: true,
+      },
+    ]);
+  });
+
+  it('skips rules that notified in an earlier attempt', async () => {
+    const notify = vi
+      .spyOn(notifier, 'notify')
+      .mockResolvedValue([{ target: 'slack', status: 'sent', attempts: 1 }]);
+
+    const sideEffects = await notificationRulesFlow.run(
+      payload,
+      detection,
+      matched([rule('qa-rule', 'qa'), rule('leads-rule', 'leads')]),
+      ['qa-rule']
+    );
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify.mock.calls[0][0]).toBe('leads');
+    expect(sideEffects.map(({ flow, status }) => [flow, status])).toEqual([
+      ['qa-rule', 'skipped'],
+      ['leads-rule', 'performed'],
+    ]);
+  });
+
+  it('reports a channel without targets as skipped', async () => {
+    vi.spyOn(notifier, 'notify').mockResolvedValue([]);
+
+    const [sideEffect] = await notificationRulesFlow.run(
+      payload,
+      detection,
+      matched([rule('qa-rule', 'qa')]),
+      []
+    );
+
+    expect(sideEffect).toMatchObject({
+      status: 'skipped',
+      reason: 'Channel has no targets configured',
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { IssueWebhookPayload } from '../../../types/linear-webhook';
+import { IssueChangeDetection } from '../utils/change-detector';
+import { buildIssueNotificationContext } from '../utils/notification-context';
+import { evaluateRules, RuleEvaluation } from '../rules/engine';
+import { notificationRuleLoader } from '../rules/loader';
+import { createLogger } from '../../../logger';
+import { dryRun } from '../../../delivery/dry-run';
+import { notifier } from '../../../notifications/notifier';
+import { FlowDecision, FlowSideEffect, IssueFlow } from './types';
+
+type MatchedRule = RuleEvaluation & {
+  decision: Extract<RuleEvaluation['decision'], { shouldRun: true }>;
+};
+
+// Runs when at least one rule matches; the reason names the matching rules,
+// or every rule with why it did not match
+export async function evaluateNotificationRulesFlow(
+  payload: IssueWebhookPayload,
+  changeDetection: IssueChangeDetection
+): Promise<FlowDecision<MatchedRule[]>> {
+  const log = createLogger('notification-rules-flow', {
+    issueId: payload.data.id,
+  });
+  const rules = await notificationRuleLoader.load();
+  const evaluations = evaluateRules(rules, payload, changeDetection);
+
+  for (const { rule, decision } of evaluations) {
+    log.debug(
+      {
+        rule: rule.name,
+        channel: rule.notify.channel,
+        matched: decision.shouldRun,
+        reason: decision.reason,
+      },
+      'Evaluated notification rule'
+    );
+  }
+
+  const matched = evaluations.filter(
+    (evaluation): evaluation is MatchedRule => evaluation.decision.shouldRun
+  );
+  if (matched.length === 0) {
+    return {
+      shouldRun: false,
+      reason:
+        evaluations.length === 0
+          ? 'No notification rules configured'
+          : `No notification rule matched (${evaluations
+              .map(({ rule, decision }) => `${rule.name}: ${decision.reason}`)
+              .join('; ')})`,
+    };
+  }
+
+  return {
+    shouldRun: true,
+    reason: `Matched ${matched.map(({ rule }) => rule.name).join(', ')}`,
+    context: matched,
+  };
+}
+
+// Sends one notification per matching rule; each rule also runs as its own
+// flow for DRY_RUN_FLOWS, so a new rule can be tried out before it posts,
+// and is retried on its own when its notification failed
+async function runNotificationRulesFlow(
+  payload: IssueWebhookPayload,
+  changeDetection: IssueChangeDetection,
+  matched: MatchedRule[],
+  completedFlows: string[]
+): Promise<FlowSideEffect[]> {
+  const { data } = payload;
+  const log = createLogger('notification-rules-flow', { issueId: data.id });
+
+  const { issue, actions } = await buildIssueNotificationContext(
+    payload,
+    changeDetection
+  );
+
+  const sideEffects = await Promise.all(
+    matched.map(({ rule, decision }) =>
+      dryRun.runFlow(rule.name, async (): Promise<FlowSideEffect[]> => {
+        const operation = `notify (rule ${rule.name})`;
+        if (completedFlows.includes(rule.name)) {
+          return [
+            {
+              service: 'notifier',
+              operation,
+              target: rule.notify.channel,
+              flow: rule.name,
+              status: 'skipped',
+              reason: 'Already executed in an earlier attempt',
+            },
+          ];
+        }
+
+        log.info(
+          {
+            issueId: data.id,
+            issueTitle: data.title,
+            rule: rule.name,
+            channel: rule.notify.channel,
+          },
+          `Notification rule "${rule.name}" matched, sending notification`
+        );
+
+        const deliveries = await notifier.notify(
+          rule.notify.channel,
+          {
+            ...decision.context,
+            link: {
+              url: issue.url,
+              label: `${issue.identifier} ${issue.title}`,
+            },
+            issue,
+            actions,
+          },
+          { issueId: data.id, issueNumber: issue.identifier, rule: rule.name }
+        );
+
+        // Missing configuration is not fixed by retrying the event
+        if (deliveries.length === 0) {
+          return [
+            {
+              service: 'notifier',
+              operation,
+              target: rule.notify.channel,
+              flow: rule.name,
+              status: 'skipped',
+              reason: 'Channel has no targets configured',
+            },
+          ];
+        }
+        return deliveries.map((delivery) => ({
+          service: delivery.target,
+          operation,
+          target: rule.notify.channel,
+          flow: rule.name,
+          status: delivery.status === 'sent' ? 'performed' : delivery.status,
+          ...(delivery.error && { error: delivery.error }),
+          ...(delivery.retryable !== undefined && {
+            retryable: delivery.retryable,
+          }),
+        }));
+      })
+    )
+  );
+  return sideEffects.flat();
+}
+
+// Issue notifications as configured in the rules file (see ../rules)
+export const notificationRulesFlow: IssueFlow<MatchedRule[]> = {
+  name: 'notification-rules',
+  actions: ['create', 'update'],
+  evaluate: evaluateNotificationRulesFlow,
+  run: runNotificationRulesFlow,
+};
@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from 'vitest';
+import { IssueFlowRegistry } from './registry';
+import { FlowSideEffect, IssueFlow } from './types';
+import { IssueChangeDetection } from '../utils/change-detector';
+import { IssueWebhookPayload } from '../../../types/linear-webhook';
+
+const payload: IssueWebhookPayload = {
+  action: 'update',
+  type: 'Issue',
+  organizationId: 'org-1',
+  webhookId: 'webhook-1',
+  webhookTimestamp: 1736499600000,
+  data: {
+    id: 'issue-1',
+    createdAt: '2025-01-10T09:00:00.000Z',
+    updatedAt: '2025-01-10T09:00:00.000Z',
+  },
+};
+
+const detection: IssueChangeDetection = {
+  hasChanges: true,
+  changes: { priority: { changed: true, current: 1, previous: 3 } },
+};
+
+function flow(
+  name: string,
+  run: IssueFlow['run'] = async () => []
+): IssueFlow<undefined> {
+  return {
+    name,
+    actions: ['update'],
+    evaluate: () => ({ shouldRun: true, reason: 'Always', context: undefined }),
+    run: vi.fn(run),
+  };
+}
+
+function sideEffect(overrides: Partial<FlowSideEffect>): FlowSideEffect {
+  return {
+    service: 'slack',
+    operation: 'notify',
+    status: 'performed',
+    ...overrides,
+  };
+}
+
+async function statuses(registry: IssueFlowRegistry, completed?: string[]) {
+  const results = await registry.run(payload, detection, completed);
+  return Object.fromEntries(results.map((r) => [r.flow, r.status]));
+}
+
+describe('IssueFlowRegistry.run', () => {
+  it('isolates a flow that throws from the others', async () => {
+    const registry = new IssueFlowRegistry();
+    registry.register(
+      flow('broken', async () => {
+        throw new Error('Slite unavailable');
+      })
+    );
+    registry.register(flow('working'));
+
+    const results = await registry.run(payload, detection);
+
+    expect(results).toMatchObject([
+      { flow: 'broken', status: 'failed', error: 'Slite unavailable' },
+      { flow: 'working', status: 'executed' },
+    ]);
+  });
+
+  it('skips flows that executed in an earlier attempt', async () => {
+    const registry = new IssueFlowRegistry();
+    const done = flow('done');
+    registry.register(done);
+    registry.register(flow('retried'));
+
+    const results = await registry.run(payload, detection, ['done']);
+
+    expect(done.run).not.toHaveBeenCalled();
+    expect(results[0]).toEqual({
+      flow: 'done',
+      status: 'skipped',
+      reason: 'Already executed in an earlier attempt',
+    });
+    expect(results[1].status).toBe('executed');
+  });
+
+  it('passes completed flows on for nested flows', async () => {
+    const registry = new IssueFlowRegistry();
+    const rules = flow('rules');
+    registry.register(rules);
+
+    await registry.run(payload, detection, ['rule-a']);
+
+    expect(rules.run).toHaveBeenCalledWith(payload, detection, undefined, [
+      'rule-a',
+    ]);
+  });
+
+  it('fails a flow with a retryable side effect failure', async () => {
+    const registry = new IssueFlowRegistry();
+    registry.register(
+      flow('partial', async () => [
+        sideEffect({ flow: 'rule-a' }),
+        sideEffect({ flow: 'rule-b', status: 'failed', error: 'timeout' }),
+      ])
+    );
+
+    const [result] = await registry.run(payload, detection);
+
+    expect(result).toMatchObject({
+      status: 'failed',
+      error: 'slack notify: timeout',
+    });
+    expect(result.sideEffects).toHaveLength(2);
+  });
+
+  it('does not fail a flow for failures a retry cannot fix', async () => {
+    const registry = new IssueFlowRegistry();
+    registry.register(
+      flow('rejected', async () => [
+        sideEffect({ status: 'failed', error: '404', retryable: false }),
+      ])
+    );
+    registry.register(
+      flow('unconfigured', async () => [
+        sideEffect({ status: 'skipped', reason: 'No targets' }),
+      ])
+    );
+
+    expect(await statuses(registry)).toEqual({
+      rejected: 'executed',
+      unconfigured: 'executed',
+    });
+  });
+
+  it('does not run flows that are not subscribed to the action', async () => {
+    const registry = new IssueFlowRegistry();
+    const onCreate = { ...flow('on-create'), actions: ['create' as const] };
+    registry.register(onCreate);
+
+    expect(await statuses(registry)).toEqual({ 'on-create': 'skipped' });
+    expect(onCreate.run).not.toHaveBeenCalled();
+  });
+
+  it('refuses two flows with the same name', () => {
+    const registry = new IssueFlowRegistry();
+    registry.register(flow('release'));
+
+    expect(() => registry.register(flow('release'))).toThrow(
+      'Issue flow "release" is already registered'
+    );
+  });
+});
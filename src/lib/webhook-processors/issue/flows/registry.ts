@@ -0,0 +1,256 @@
+import { IssueWebhookPayload } from '../../../types/linear-webhook';
+import { IssueChangeDetection } from '../utils/change-detector';
+import { createLogger } from '../../../logger';
+import { dryRun } from '../../../delivery/dry-run';
+import { notificationRulesFlow } from './notification-rules-flow';
+import { releaseFlow } from './release-flow';
+import { FlowResult, IssueFlow } from './types';
+
+function parseFlowList(value?: string) {
+  return new Set(
+    (value || '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean)
+  );
+}
+
+// The issue flows, each subscribed to webhook actions and change types.
+// ISSUE_FLOWS_DISABLED turns flows off and ISSUE_FLOWS_ENABLED turns on flows
+// that are off by default, so every environment can run its own selection.
+// Flows run side by side and a failing flow does not stop the others
+export class IssueFlowRegistry {
+  private flows: IssueFlow[] = [];
+  private enabledFlows = parseFlowList(process.env.ISSUE_FLOWS_ENABLED);
+  private disabledFlows = parseFlowList(process.env.ISSUE_FLOWS_DISABLED);
+  private log = createLogger('issue-flows');
+
+  register<TContext>(flow: IssueFlow<TContext>) {
+    if (this.flows.some((registered) => registered.name === flow.name)) {
+      throw new Error(`Issue flow "${flow.name}" is already registered`);
+    }
+    this.flows.push(flow as IssueFlow);
+  }
+
+  get names() {
+    return this.flows.map((flow) => flow.name);
+  }
+
+  isEnabled(flow: IssueFlow) {
+    if (this.disabledFlows.has(flow.name)) {
+      return false;
+    }
+    return flow.enabledByDefault !== false || this.enabledFlows.has(flow.name);
+  }
+
+  // Decides every flow without running any, for dry-run processing
+  async evaluate(
+    payload: IssueWebhookPayload,
+    changeDetection: IssueChangeDetection
+  ) {
+    return Promise.all(
+      this.flows.map(async (flow) => {
+        const skipped = this.precheck(flow, payload, changeDetection);
+        if (skipped) {
+          return { flow: flow.name, wouldRun: false, reason: skipped.reason };
+        }
+        try {
+          const decision = await flow.evaluate(payload, changeDetection);
+          return {
+            flow: flow.name,
+            wouldRun: decision.shouldRun,
+            reason: decision.reason,
+          };
+        } catch (error) {
+          return {
+            flow: flow.name,
+            wouldRun: false,
+            reason: `Evaluation failed: ${error instanceof Error ? error.message : String(error)}`,
+          };
+        }
+      })
+    );
+  }
+
+  // Flows listed in completedFlows executed in an earlier attempt of the
+  // same event and are skipped, so a retry does not repeat their side
+  // effects; nested flows in the list are skipped by their flow's run()
+  async run(
+    payload: IssueWebhookPayload,
+    changeDetection: IssueChangeDetection,
+    completedFlows: string[] = []
+  ): Promise<FlowResult[]> {
+    const settled = await Promise.allSettled(
+      this.flows.map(async (flow): Promise<FlowResult> => {
+        if (completedFlows.includes(flow.name)) {
+          const result: FlowResult = {
+            flow: flow.name,
+            status: 'skipped',
+            reason: 'Already executed in an earlier attempt',
+          };
+          this.logSkipped(payload, result);
+          return result;
+        }
+        return dryRun.runFlow(flow.name, () =>
+          this.runFlow(flow, payload, changeDetection, completedFlows)
+        );
+      })
+    );
+
+    return settled.map((outcome, index) =>
+      outcome.status === 'fulfilled'
+        ? outcome.value
+        : {
+            flow: this.flows[index].name,
+            status: 'failed',
+            error:
+              outcome.reason instanceof Error
+                ? outcome.reason.message
+                : String(outcome.reason),
+          }
+    );
+  }
+
+  private async runFlow(
+    flow: IssueFlow,
+    payload: IssueWebhookPayload,
+    changeDetection: IssueChangeDetection,
+    completedFlows: string[]
+  ): Promise<FlowResult> {
+    const skipped = this.precheck(flow, payload, changeDetection);
+    if (skipped) {
+      this.logSkipped(payload, skipped);
+      return skipped;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const decision = await flow.evaluate(payload, changeDetection);
+      if (!decision.shouldRun) {
+        const result: FlowResult = {
+          flow: flow.name,
+          status: 'skipped',
+          reason: decision.reason,
+        };
+        this.logSkipped(payload, result);
+        return result;
+      }
+
+      const sideEffects = await flow.run(
+        payload,
+        changeDetection,
+        decision.context,
+        completedFlows
+      );
+
+      // A side effect that failed and could succeed on a retry (e.g. a
+      // notification that timed out) fails the flow, so the event is
+      // retried. Failures no retry could fix (a 4xx from the target, a
+      // channel without targets) do not
+      const failedEffects = sideEffects.filter(
+        (effect) => effect.status === 'failed'
+      );
+      if (failedEffects.some((effect) => effect.retryable !== false)) {
+        const result: FlowResult = {
+          flow: flow.name,
+          status: 'failed',
+          reason: decision.reason,
+          error: failedEffects
+            .map(
+              (effect) =>
+                `${effect.service} ${effect.operation}: ${effect.error || 'failed'}`
+            )
+            .join('; '),
+          durationMs: Date.now() - startedAt,
+          sideEffects,
+        };
+        this.log.error(
+          { issueId: payload.data.id, action: payload.action, ...result },
+          `Issue flow "${flow.name}" failed`
+        );
+        return result;
+      }
+
+      const result: FlowResult = {
+        flow: flow.name,
+        status: 'executed',
+        reason: decision.reason,
+        durationMs: Date.now() - startedAt,
+        sideEffects,
+      };
+      this.log.info(
+        { issueId: payload.data.id, action: payload.action, ...result },
+        `Issue flow "${flow.name}" executed`
+      );
+      return result;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      this.log.error(
+        {
+          flow: flow.name,
+          issueId: payload.data.id,
+          action: payload.action,
+          error: errorMessage,
+          stack: error instanceof Error ? error.stack : undefined,
+        },
+        `Issue flow "${flow.name}" failed`
+      );
+      return {
+        flow: flow.name,
+        status: 'failed',
+        error: errorMessage,
+        durationMs: Date.now() - startedAt,
+      };
+    }
+  }
+
+  private logSkipped(payload: IssueWebhookPayload, result: FlowResult) {
+    this.log.debug(
+      { issueId: payload.data.id, action: payload.action, ...result },
+      `Issue flow "${result.flow}" ${result.status}`
+    );
+  }
+
+  // The result for a flow that is off or not subscribed to this event, or
+  // null when the flow gets to decide for itself
+  private precheck(
+    flow: IssueFlow,
+    payload: IssueWebhookPayload,
+    changeDetection: IssueChangeDetection
+  ): FlowResult | null {
+    const skip = (reason: string): FlowResult => ({
+      flow: flow.name,
+      status: 'skipped',
+      reason,
+    });
+
+    if (!this.isEnabled(flow)) {
+      return {
+        flow: flow.name,
+        status: 'disabled',
+        reason: 'Disabled in this environment',
+      };
+    }
+    if (!flow.actions.includes(payload.action)) {
+      return skip(`Not subscribed to ${payload.action}`);
+    }
+    if (payload.action !== 'update') {
+      return null;
+    }
+    if (!changeDetection.hasChanges) {
+      return skip('No changes detected');
+    }
+    if (
+      flow.changeTypes &&
+      !flow.changeTypes.some((type) => changeDetection.changes[type]?.changed)
+    ) {
+      return skip(`No ${flow.changeTypes.join(' or ')} change`);
+    }
+    return null;
+  }
+}
+
+export const issueFlowRegistry = new IssueFlowRegistry();
+issueFlowRegistry.register(notificationRulesFlow);
+issueFlowRegistry.register(releaseFlow);
@@ -1,17 +1,37 @@
-import { LinearWebhookPayload } from '../../../types/linear-webhook';
-import { IssueChangeDetection } from '../utils/change-detector';
+import { IssueWebhookPayload } from '../../../types/linear-webhook';
+import { IssueChangeDetection, Label, State } from '../utils/change-detector';
 import { processStatusReleaseChange } from '../../release-processor';
 import { createLogger } from '../../../logger';
+import { dryRun } from '../../../delivery/dry-run';
+import { FlowDecision, FlowSideEffect, IssueFlow } from './types';
+import { findStoryLabel, STORY_LABEL_PARENT_ID } from '../utils/story-label';
 
-const STORY_LABEL_PARENT_ID = '037a6e45-7430-42bc-b6e9-c3a083514ead';
+interface ReleaseFlowContext {
+  storyLabel: Label;
+  // Not set when the issue was removed
+  previousState?: State;
+  currentState?: State;
+}
 
-export async function processReleaseFlow(
-  payload: LinearWebhookPayload,
+export function evaluateReleaseFlow(
+  payload: IssueWebhookPayload,
   changeDetection: IssueChangeDetection
-) {
-  const { data, organizationId } = payload;
+): FlowDecision<ReleaseFlowContext> {
+  const { data } = payload;
   const log = createLogger('release-flow', { issueId: data.id });
 
+  // A removed story issue drops out of the release document on regeneration
+  if (payload.action === 'remove') {
+    const storyLabel = findStoryLabel(data.labels);
+    return storyLabel
+      ? {
+          shouldRun: true,
+          reason: `Story "${storyLabel.name}" issue removed`,
+          context: { storyLabel },
+        }
+      : { shouldRun: false, reason: 'Issue has no story label' };
+  }
+
   // Only process if status actually changed
   const statusChanged = changeDetection.changes.status?.changed;
 
@@ -23,15 +43,13 @@ export async function processReleaseFlow(
       },
       'No status change detected, skipping release processing'
     );
-    return;
+    return { shouldRun: false, reason: 'No status change' };
   }
 
-  // Check if issue has the story label
-  const hasStoryLabel = data.labels?.some(
-    (label) => label.parentId === STORY_LABEL_PARENT_ID
-  );
+  // Find the story label to get its name for the release document
+  const storyLabel = findStoryLabel(data.labels);
 
-  if (!hasStoryLabel) {
+  if (!storyLabel) {
     log.debug(
       {
         issueId: data.id,
@@ -44,7 +62,7 @@ export async function processReleaseFlow(
       },
       'Issue does not have story label, skipping release processing'
     );
-    return;
+    return { shouldRun: false, reason: 'Issue has no story label' };
   }
 
   const currentState = changeDetection.changes.status?.current;
@@ -59,62 +77,87 @@ export async function processReleaseFlow(
       },
       'Missing current or previous state information, skipping release processing'
     );
-    return;
+    return {
+      shouldRun: false,
+      reason: 'Missing current or previous state',
+    };
   }
 
+  return {
+    shouldRun: true,
+    reason: `Story "${storyLabel.name}" moved from ${previousState.name} to ${currentState.name}`,
+    context: { storyLabel, previousState, currentState },
+  };
+}
+
+async function runReleaseFlow(
+  payload: IssueWebhookPayload,
+  _changeDetection: IssueChangeDetection,
+  context: ReleaseFlowContext
+): Promise<FlowSideEffect[]> {
+  const { data, organizationId } = payload;
+  const log = createLogger('release-flow', { issueId: data.id });
+  const { storyLabel, previousState, currentState } = context;
+
   log.info(
     {
       issueId: data.id,
       issueTitle: data.title,
-      from: previousState.name,
-      to: currentState.name,
+      action: payload.action,
+      from: previousState?.name,
+      to: currentState?.name,
     },
-    'State change detected for story ticket, processing release change...'
+    'Story ticket changed, processing release change...'
   );
 
   try {
-    // Find the story label to get its name for the release document
-    const storyLabel = data.labels?.find(
-      (label) => label.parentId === STORY_LABEL_PARENT_ID
-    );
+    const releaseResult = await processStatusReleaseChange({
+      issueId: data.id,
+      issueTitle: data.title || 'Untitled Issue',
+      labelName: storyLabel.name,
+      labelId: storyLabel.id,
+      previousState: previousState && {
+        id: previousState.id,
+        name: previousState.name,
+        type: previousState.type,
+      },
+      currentState: currentState && {
+        id: currentState.id,
+        name: currentState.name,
+        type: currentState.type,
+      },
+      organizationId: organizationId,
+    });
 
-    if (storyLabel) {
-      await processStatusReleaseChange({
+    if (!releaseResult.success) {
+      throw new Error(
+        ('error' in releaseResult && releaseResult.error) ||
+          'Release change processing failed'
+      );
+    }
+
+    log.info(
+      {
         issueId: data.id,
-        issueTitle: data.title || 'Untitled Issue',
         labelName: storyLabel.name,
-        labelId: storyLabel.id,
-        previousState: {
-          id: previousState.id,
-          name: previousState.name,
-          type: previousState.type,
-        },
-        currentState: {
-          id: currentState.id,
-          name: currentState.name,
-          type: currentState.type,
-        },
-        organizationId: organizationId,
-      });
-
-      log.info(
-        {
-          issueId: data.id,
-          labelName: storyLabel.name,
-          from: previousState.name,
-          to: currentState.name,
-        },
-        'Successfully processed release change'
-      );
-    } else {
-      log.warn(
-        {
-          issueId: data.id,
-          storyLabelParentId: STORY_LABEL_PARENT_ID,
-        },
-        'Story label found in initial check but not in processing - this should not happen'
-      );
+        from: previousState?.name,
+        to: currentState?.name,
+      },
+      'Successfully processed release change'
+    );
+
+    // A released document is left as it is
+    if (!('action' in releaseResult) || releaseResult.action === 'skipped') {
+      return [];
     }
+    return [
+      {
+        service: 'slite',
+        operation: `${releaseResult.action === 'created' ? 'create' : 'update'} release document`,
+        target: releaseResult.documentId,
+        status: dryRun.active ? 'dry-run' : 'performed',
+      },
+    ];
   } catch (error) {
     log.error(
       {
@@ -122,10 +165,22 @@ export async function processReleaseFlow(
         stack: error instanceof Error ? error.stack : undefined,
         issueId: data.id,
         issueTitle: data.title,
-        from: previousState.name,
-        to: currentState.name,
+        from: previousState?.name,
+        to: currentState?.name,
       },
       'Error processing release change'
     );
+
+    // Rethrow so the queued event is retried instead of silently dropped
+    throw error;
   }
 }
+
+// Keeps the story's Slite release document in sync with its tickets
+export const releaseFlow: IssueFlow<ReleaseFlowContext> = {
+  name: 'release',
+  actions: ['create', 'update', 'remove'],
+  changeTypes: ['status'],
+  evaluate: evaluateReleaseFlow,
+  run: runReleaseFlow,
+};
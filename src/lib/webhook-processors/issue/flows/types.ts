@@ -0,0 +1,67 @@
+import {
+  IssueWebhookPayload,
+  LinearWebhookAction,
+} from '../../../types/linear-webhook';
+import { IssueChangeDetection } from '../utils/change-detector';
+
+export type ChangeField = keyof IssueChangeDetection['changes'];
+
+// Outcome of a flow's trigger checks, evaluated before any side effect runs
+export type FlowDecision<TContext = undefined> =
+  | { shouldRun: true; reason: string; context: TContext }
+  | { shouldRun: false; reason: string };
+
+// A unit of issue processing, registered in ./registry
+export interface IssueFlow<TContext = unknown> {
+  // Also the name for DRY_RUN_FLOWS and ISSUE_FLOWS_ENABLED/DISABLED
+  name: string;
+  actions: LinearWebhookAction[];
+  // Updates only reach the flow when one of these changed; without it any
+  // detected change does
+  changeTypes?: ChangeField[];
+  // false keeps the flow off unless ISSUE_FLOWS_ENABLED lists it
+  enabledByDefault?: boolean;
+  evaluate(
+    payload: IssueWebhookPayload,
+    changeDetection: IssueChangeDetection
+  ): FlowDecision<TContext> | Promise<FlowDecision<TContext>>;
+  // Called with the context of a positive decision; reports the writes it
+  // made and throws on failure. completedFlows names the nested flows (see
+  // FlowSideEffect.flow) that executed in an earlier attempt of the event
+  run(
+    payload: IssueWebhookPayload,
+    changeDetection: IssueChangeDetection,
+    context: TContext,
+    completedFlows: string[]
+  ): Promise<FlowSideEffect[]>;
+}
+
+// One write to an outside service, e.g. a Slack message or a Slite document
+export interface FlowSideEffect {
+  // Notification target type ('slack', 'email', ...), 'slite' or 'linear'
+  service: string;
+  operation: string;
+  // Notification channel, document ID, ...
+  target?: string;
+  // Nested flow that made the write (e.g. a notification rule); a retry
+  // skips nested flows without retryable failures
+  flow?: string;
+  status: 'performed' | 'failed' | 'skipped' | 'dry-run';
+  // Why a write was skipped, e.g. a channel without targets
+  reason?: string;
+  error?: string;
+  // false for failures a retry cannot fix (a 4xx, missing configuration)
+  retryable?: boolean;
+}
+
+export type FlowStatus = 'executed' | 'skipped' | 'failed' | 'disabled';
+
+export interface FlowResult {
+  flow: string;
+  status: FlowStatus;
+  reason?: string;
+  error?: string;
+  durationMs?: number;
+  // Only for executed flows
+  sideEffects?: FlowSideEffect[];
+}
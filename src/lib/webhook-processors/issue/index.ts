@@ -1,11 +1,15 @@
-import { LinearWebhookPayload } from '../../types/linear-webhook';
+import {
+  IssueWebhookPayload,
+  WebhookProcessingOptions,
+} from '../../types/linear-webhook';
 import { issueChangeDetector } from './utils/change-detector';
-import { processFiremanValidationFlow } from './flows/fireman-validation-flow';
-import { processCycleStatusFlow } from './flows/cycle-status-flow';
-import { processReleaseFlow } from './flows/release-flow';
+import { issueFlowRegistry } from './flows/registry';
 import { createLogger } from '../../logger';
 
-export async function processIssueWebhook(payload: LinearWebhookPayload) {
+export async function processIssueWebhook(
+  payload: IssueWebhookPayload,
+  options: WebhookProcessingOptions = {}
+) {
   const { action, data } = payload;
   const log = createLogger('issue-processor', {
     issueId: data.id,
@@ -26,7 +30,9 @@ export async function processIssueWebhook(payload: LinearWebhookPayload) {
 
   try {
     // Detect all changes with enriched data
-    const changeDetection = await issueChangeDetector.detectChanges(payload);
+    const changeDetection = await issueChangeDetector.detectChanges(payload, {
+      dryRun: options.dryRun,
+    });
 
     log.debug(
       {
@@ -42,6 +48,22 @@ export async function processIssueWebhook(payload: LinearWebhookPayload) {
       'Change detection completed'
     );
 
+    if (options.dryRun) {
+      return {
+        success: true,
+        dryRun: true,
+        action,
+        issueId: data.id,
+        hasChanges: changeDetection.hasChanges,
+        changeTypes: Object.keys(changeDetection.changes).filter(
+          (key) =>
+            changeDetection.changes[key as keyof typeof changeDetection.changes]
+              ?.changed
+        ),
+        flows: await issueFlowRegistry.evaluate(payload, changeDetection),
+      };
+    }
+
     switch (action) {
       case 'create':
         log.info(
@@ -53,13 +75,6 @@ export async function processIssueWebhook(payload: LinearWebhookPayload) {
           },
           `New issue created: ${data.title} (${data.id})`
         );
-
-        // Run flows for create action
-        await Promise.all([
-          processFiremanValidationFlow(payload, changeDetection),
-          processCycleStatusFlow(payload, changeDetection),
-          processReleaseFlow(payload, changeDetection),
-        ]);
         break;
 
       case 'update':
@@ -71,36 +86,63 @@ export async function processIssueWebhook(payload: LinearWebhookPayload) {
           },
           `Issue updated: ${data.title} (${data.id})`
         );
-
-        // Only run flows if there are actual changes
-        if (changeDetection.hasChanges) {
-          await Promise.all([
-            processFiremanValidationFlow(payload, changeDetection),
-            processCycleStatusFlow(payload, changeDetection),
-            processReleaseFlow(payload, changeDetection),
-          ]);
-        } else {
-          log.debug(
-            { issueId: data.id },
-            'No relevant changes detected, skipping flow processing'
-          );
-        }
         break;
 
       case 'remove':
         log.info(`Issue removed: ${data.id}`);
-        // No flows needed for remove action
         break;
 
       default:
         log.warn({ unknownAction: action }, `Unknown issue action: ${action}`);
     }
 
+    // Each flow checks its own subscription (actions and change types)
+    const flows = await issueFlowRegistry.run(
+      payload,
+      changeDetection,
+      options.completedFlows
+    );
+    const failedFlows = flows.filter((flow) => flow.status === 'failed');
+    const flowSummary = Object.fromEntries(
+      flows.map((flow) => [flow.flow, flow.status])
+    );
+    const changeTypes = Object.keys(changeDetection.changes).filter(
+      (key) =>
+        changeDetection.changes[key as keyof typeof changeDetection.changes]
+          ?.changed
+    );
+
+    // A failed flow fails the delivery so the queued event is retried
+    if (failedFlows.length > 0) {
+      log.error(
+        {
+          issueId: data.id,
+          action,
+          failedFlows: failedFlows.map((flow) => flow.flow),
+          flows: flowSummary,
+        },
+        'Issue webhook processing finished with failed flows'
+      );
+
+      return {
+        success: false,
+        action,
+        issueId: data.id,
+        error: failedFlows
+          .map((flow) => `Flow "${flow.flow}" failed: ${flow.error}`)
+          .join('; '),
+        hasChanges: changeDetection.hasChanges,
+        changeTypes,
+        flows,
+      };
+    }
+
     log.info(
       {
         issueId: data.id,
         action,
         hasChanges: changeDetection.hasChanges,
+        flows: flowSummary,
       },
       'Issue webhook processing completed successfully'
     );
@@ -110,11 +152,8 @@ export async function processIssueWebhook(payload: LinearWebhookPayload) {
       action,
       issueId: data.id,
       hasChanges: changeDetection.hasChanges,
-      changeTypes: Object.keys(changeDetection.changes).filter(
-        (key) =>
-          changeDetection.changes[key as keyof typeof changeDetection.changes]
-            ?.changed
-      ),
+      changeTypes,
+      flows,
     };
   } catch (error) {
     log.error(
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRules, renderTemplate } from './engine';
+import { NotificationRule } from './types';
+import { IssueChangeDetection } from '../utils/change-detector';
+import { IssueWebhookPayload } from '../../../types/linear-webhook';
+
+const payload: IssueWebhookPayload = {
+  action: 'update',
+  type: 'Issue',
+  organizationId: 'org-1',
+  webhookId: 'webhook-1',
+  webhookTimestamp: 1736499600000,
+  data: {
+    id: 'issue-1',
+    identifier: 'PRD-1',
+    title: 'Fix <checkout> & *totals*',
+    url: 'https://linear.app/fake/issue/PRD-1',
+    priority: 1,
+    team: { id: 'team-product', name: 'Engineering - PRODUCT' },
+    state: { id: 'state-qa', name: 'QA Testing', type: 'started' },
+    createdAt: '2025-01-10T09:00:00.000Z',
+    updatedAt: '2025-01-10T09:00:00.000Z',
+  },
+};
+
+const movedToQa: IssueChangeDetection = {
+  hasChanges: true,
+  changes: {
+    status: {
+      changed: true,
+      current: { id: 'state-qa', name: 'QA Testing', type: 'started' },
+      previous: { id: 'state-dev', name: 'In Progress', type: 'started' },
+    },
+  },
+};
+
+function rule(
+  name: string,
+  overrides: Partial<NotificationRule> = {}
+): NotificationRule {
+  return {
+    name,
+    when: {},
+    notify: { channel: 'qa', text: `${name}: {{identifier}}` },
+    ...overrides,
+  };
+}
+
+function outcomes(rules: NotificationRule[], detection = movedToQa) {
+  return evaluateRules(rules, payload, detection).map(({ rule, decision }) => [
+    rule.name,
+    decision.shouldRun,
+  ]);
+}
+
+describe('evaluateRules', () => {
+  it('runs every matching rule when none stops', () => {
+    expect(
+      outcomes([
+        rule('first'),
+        rule('second', { when: { state: { to: 'qa testing' } } }),
+      ])
+    ).toEqual([
+      ['first', true],
+      ['second', true],
+    ]);
+  });
+
+  it('skips later rules for the channel of a matching stop rule', () => {
+    const evaluations = evaluateRules(
+      [
+        rule('urgent', { when: { priority: 1 }, stop: true }),
+        rule('any'),
+        rule('other channel', {
+          notify: { channel: 'leads', text: '{{title}}' },
+        }),
+      ],
+      payload,
+      movedToQa
+    );
+
+    expect(evaluations.map(({ decision }) => decision.shouldRun)).toEqual([
+      true,
+      false,
+      true,
+    ]);
+    expect(evaluations[1].decision.reason).toBe(
+      'Rule "urgent" already notified qa'
+    );
+  });
+
+  it('does not stop later rules when the stop rule does not match', () => {
+    expect(
+      outcomes([
+        rule('low priority', { when: { priority: 4 }, stop: true }),
+        rule('any'),
+      ])
+    ).toEqual([
+      ['low priority', false],
+      ['any', true],
+    ]);
+  });
+
+  it('explains which condition failed', () => {
+    const [evaluation] = evaluateRules(
+      [rule('from todo', { when: { state: { from: ['Todo', 'Backlog'] } } })],
+      payload,
+      movedToQa
+    );
+
+    expect(evaluation.decision).toEqual({
+      shouldRun: false,
+      reason: 'State did not change from Todo or Backlog',
+    });
+  });
+
+  it('requires a state change for state.to', () => {
+    expect(
+      outcomes([rule('into qa', { when: { state: { to: 'QA Testing' } } })], {
+        hasChanges: false,
+        changes: {},
+      })
+    ).toEqual([['into qa', false]]);
+  });
+
+  it('renders the templates with plain and Slack-escaped values', () => {
+    const [evaluation] = evaluateRules(
+      [
+        rule('qa', {
+          notify: {
+            channel: 'qa',
+            text: '*{{identifier}}* {{title}} moved from {{previousState}}',
+            title: '{{identifier}} in {{state}}',
+          },
+        }),
+      ],
+      payload,
+      movedToQa
+    );
+
+    expect(evaluation.decision).toEqual({
+      shouldRun: true,
+      reason: 'Rule "qa" matched',
+      context: {
+        text: '*PRD-1* Fix <checkout> & *totals* moved from In Progress',
+        mrkdwn:
+          '*PRD-1* Fix &lt;checkout&gt; &amp; *totals* moved from In Progress',
+        title: 'PRD-1 in QA Testing',
+      },
+    });
+  });
+});
+
+describe('renderTemplate', () => {
+  const values = {
+    identifier: 'PRD-1',
+    title: 'a < b',
+    url: '',
+    team: '',
+    state: '',
+    previousState: '',
+    priority: 'Urgent',
+    cycle: '',
+    labelsAdded: '',
+  };
+
+  it('fills placeholders, tolerating whitespace inside the braces', () => {
+    expect(renderTemplate('{{ identifier }} ({{priority}})', values)).toBe(
+      'PRD-1 (Urgent)'
+    );
+  });
+
+  it('renders unknown placeholders as empty', () => {
+    expect(renderTemplate('[{{nope}}]', values)).toBe('[]');
+  });
+
+  it('escapes the values but not the template', () => {
+    expect(
+      renderTemplate('<b>{{title}}</b>', values, (value) =>
+        value.replace('<', '&lt;')
+      )
+    ).toBe('<b>a &lt; b</b>');
+  });
+});
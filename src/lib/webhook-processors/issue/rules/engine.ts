@@ -0,0 +1,199 @@
+import { IssueWebhookPayload } from '../../../types/linear-webhook';
+import { IssueChangeDetection } from '../utils/change-detector';
+import { PRIORITY_LABELS } from '../utils/notification-context';
+import { FlowDecision } from '../flows/types';
+import { escapeMrkdwn } from '../../../notifications/channels/slack-blocks';
+import { NotificationRule, RuleConditions } from './types';
+
+export const TEMPLATE_VARIABLES = [
+  'identifier',
+  'title',
+  'url',
+  'team',
+  'state',
+  'previousState',
+  'priority',
+  'cycle',
+  'labelsAdded',
+] as const;
+
+type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export interface RuleEvaluation {
+  rule: NotificationRule;
+  decision: FlowDecision<{ text: string; mrkdwn: string; title?: string }>;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+function toList<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function includesName(names: string | string[], name?: string) {
+  const wanted = toList(names).map((n) => n.toLowerCase());
+  return !!name && wanted.includes(name.toLowerCase());
+}
+
+function describe(names: string | string[] | number | number[]) {
+  return toList(names).join(' or ');
+}
+
+// Returns why the conditions do not hold, or null when they all do
+function checkConditions(
+  when: RuleConditions,
+  payload: IssueWebhookPayload,
+  changeDetection: IssueChangeDetection
+): string | null {
+  const { data } = payload;
+  const { changes } = changeDetection;
+
+  if (when.team && !includesName(when.team, data.team?.name)) {
+    return `Team is not ${describe(when.team)}`;
+  }
+
+  if (when.changed && !toList(when.changed).some((f) => changes[f]?.changed)) {
+    return `No ${describe(when.changed)} change`;
+  }
+
+  if (when.state) {
+    const { is, from, to } = when.state;
+    const status = changes.status;
+    const current = data.state?.name;
+    const previous = status?.previous?.name;
+
+    if (is && !includesName(is, current)) {
+      return `State is not ${describe(is)}`;
+    }
+    if ((from || to) && !status?.changed) {
+      return 'State did not change';
+    }
+    if (from && !includesName(from, previous)) {
+      return `State did not change from ${describe(from)}`;
+    }
+    // Moving between two states of the same name (e.g. across teams) is not
+    // a transition into the state
+    if (
+      to &&
+      (!includesName(to, current) ||
+        previous?.toLowerCase() === current?.toLowerCase())
+    ) {
+      return `State did not change to ${describe(to)}`;
+    }
+  }
+
+  if (
+    when.labelAdded &&
+    !changes.labels?.added.some((label) =>
+      includesName(when.labelAdded!, label.name)
+    )
+  ) {
+    return `Label ${describe(when.labelAdded)} was not added`;
+  }
+
+  if (
+    when.priority !== undefined &&
+    !toList(when.priority).includes(data.priority ?? 0)
+  ) {
+    return `Priority is not ${describe(when.priority)}`;
+  }
+
+  if (when.cycleActive !== undefined) {
+    const cycleDetails = changeDetection.enrichedData?.cycleDetails;
+    const isActive =
+      !!data.cycle?.id && !!cycleDetails && !cycleDetails.completedAt;
+    if (isActive !== when.cycleActive) {
+      return when.cycleActive
+        ? 'Issue is not in an active cycle'
+        : 'Issue is in an active cycle';
+    }
+  }
+
+  return null;
+}
+
+function templateValues(
+  payload: IssueWebhookPayload,
+  changeDetection: IssueChangeDetection
+): Record<TemplateVariable, string> {
+  const { data } = payload;
+  const { changes, enrichedData } = changeDetection;
+
+  return {
+    identifier: data.identifier?.toString() || 'N/A',
+    title: data.title || 'Untitled Issue',
+    url: data.url || `https://linear.app/issue/${data.id}`,
+    team: data.team?.name || '',
+    state: data.state?.name || '',
+    previousState: changes.status?.previous?.name || '',
+    priority: PRIORITY_LABELS[data.priority ?? 0] || 'No priority',
+    cycle: enrichedData?.cycleDetails?.name ?? data.cycle?.name ?? '',
+    labelsAdded: (changes.labels?.added || [])
+      .map((label) => label.name)
+      .join(', '),
+  };
+}
+
+// escape is applied to the values only, so the template itself may use the
+// target's markup
+export function renderTemplate(
+  template: string,
+  values: Record<TemplateVariable, string>,
+  escape: (value: string) => string = (value) => value
+) {
+  return template.replace(PLACEHOLDER, (_match, name: string) =>
+    escape(values[name as TemplateVariable] ?? '')
+  );
+}
+
+export function templatePlaceholders(template: string) {
+  return [...template.matchAll(PLACEHOLDER)].map((match) => match[1]);
+}
+
+// Evaluates the rules in order. Matching rules are independent of each other,
+// except that a matching rule with stop: true silences later rules for the
+// same channel
+export function evaluateRules(
+  rules: NotificationRule[],
+  payload: IssueWebhookPayload,
+  changeDetection: IssueChangeDetection
+): RuleEvaluation[] {
+  const values = templateValues(payload, changeDetection);
+  const stoppedBy = new Map<string, string>();
+
+  return rules.map((rule) => {
+    const stopper = stoppedBy.get(rule.notify.channel);
+    if (stopper) {
+      return {
+        rule,
+        decision: {
+          shouldRun: false,
+          reason: `Rule "${stopper}" already notified ${rule.notify.channel}`,
+        },
+      };
+    }
+
+    const failure = checkConditions(rule.when, payload, changeDetection);
+    if (failure) {
+      return { rule, decision: { shouldRun: false, reason: failure } };
+    }
+
+    if (rule.stop) {
+      stoppedBy.set(rule.notify.channel, rule.name);
+    }
+    return {
+      rule,
+      decision: {
+        shouldRun: true,
+        reason: `Rule "${rule.name}" matched`,
+        context: {
+          text: renderTemplate(rule.notify.text, values),
+          mrkdwn: renderTemplate(rule.notify.text, values, escapeMrkdwn),
+          ...(rule.notify.title && {
+            title: renderTemplate(rule.notify.title, values),
+          }),
+        },
+      },
+    };
+  });
+}
@@ -0,0 +1,199 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parse } from 'yaml';
+import { createLogger } from '../../../logger';
+import { TEMPLATE_VARIABLES, templatePlaceholders } from './engine';
+import { ChangeField, NotificationRule, RuleConditions } from './types';
+
+const DEFAULT_RULES_FILE = 'config/notification-rules.yaml';
+
+// Keyed by ChangeField so a new change type cannot be missed here
+const CHANGE_FIELDS: Record<ChangeField, true> = {
+  labels: true,
+  status: true,
+  assignee: true,
+  priority: true,
+  cycle: true,
+  project: true,
+  title: true,
+  description: true,
+  estimate: true,
+  dueDate: true,
+  parent: true,
+  team: true,
+  archived: true,
+  trashed: true,
+  relations: true,
+};
+
+const CONDITION_KEYS: (keyof RuleConditions)[] = [
+  'team',
+  'changed',
+  'state',
+  'labelAdded',
+  'priority',
+  'cycleActive',
+];
+
+function isNameList(value: unknown) {
+  return (
+    typeof value === 'string' ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+  );
+}
+
+// Returns the problems with one rule, so a typo in the rules file is reported
+// instead of silently never (or always) matching
+function validateRule(rule: unknown): string[] {
+  if (!rule || typeof rule !== 'object') {
+    return ['rule must be an object'];
+  }
+  const { name, when, notify } = rule as Partial<NotificationRule>;
+  const issues: string[] = [];
+
+  if (typeof name !== 'string' || !name) {
+    issues.push('name must be a non-empty string');
+  }
+
+  if (!when || typeof when !== 'object') {
+    issues.push('when must be an object');
+  } else {
+    for (const key of Object.keys(when)) {
+      if (!CONDITION_KEYS.includes(key as keyof RuleConditions)) {
+        issues.push(`unknown condition "${key}"`);
+      }
+    }
+    for (const key of ['team', 'labelAdded'] as const) {
+      if (when[key] !== undefined && !isNameList(when[key])) {
+        issues.push(`${key} must be a name or a list of names`);
+      }
+    }
+    if (when.changed !== undefined) {
+      const fields = Array.isArray(when.changed)
+        ? when.changed
+        : [when.changed];
+      for (const field of fields) {
+        if (!(field in CHANGE_FIELDS)) {
+          issues.push(`unknown changed field "${field}"`);
+        }
+      }
+    }
+    if (when.state !== undefined) {
+      for (const [key, value] of Object.entries(when.state)) {
+        if (!['is', 'from', 'to'].includes(key)) {
+          issues.push(`unknown state condition "${key}"`);
+        } else if (!isNameList(value)) {
+          issues.push(`state.${key} must be a name or a list of names`);
+        }
+      }
+    }
+    if (
+      when.priority !== undefined &&
+      ![when.priority].flat().every((p) => Number.isInteger(p))
+    ) {
+      issues.push('priority must be a number or a list of numbers');
+    }
+    if (
+      when.cycleActive !== undefined &&
+      typeof when.cycleActive !== 'boolean'
+    ) {
+      issues.push('cycleActive must be true or false');
+    }
+  }
+
+  if (!notify || typeof notify !== 'object') {
+    issues.push('notify must be an object');
+  } else {
+    if (typeof notify.channel !== 'string' || !notify.channel) {
+      issues.push('notify.channel must be a non-empty string');
+    }
+    if (typeof notify.text !== 'string' || !notify.text) {
+      issues.push('notify.text must be a non-empty string');
+    }
+    for (const template of [notify.text, notify.title]) {
+      for (const variable of typeof template === 'string'
+        ? templatePlaceholders(template)
+        : []) {
+        if (!(TEMPLATE_VARIABLES as readonly string[]).includes(variable)) {
+          issues.push(`unknown template variable "{{${variable}}}"`);
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Notification rules from NOTIFICATION_RULES_FILE (JSON or YAML), by default
+// config/notification-rules.yaml. Read once per process; invalid rules are
+// logged and left out, a missing or unreadable file means no rules
+class NotificationRuleLoader {
+  private log = createLogger('notification-rules');
+  private rules: Promise<NotificationRule[]> | null = null;
+
+  get filePath() {
+    return path.resolve(
+      process.env.NOTIFICATION_RULES_FILE || DEFAULT_RULES_FILE
+    );
+  }
+
+  load(): Promise<NotificationRule[]> {
+    if (!this.rules) {
+      this.rules = this.read();
+    }
+    return this.rules;
+  }
+
+  private async read(): Promise<NotificationRule[]> {
+    const filePath = this.filePath;
+    let document: unknown;
+    try {
+      // YAML is a superset of JSON, so one parser reads both
+      document = parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      this.log.error(
+        {
+          filePath,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Could not read notification rules, no notifications will be sent'
+      );
+      return [];
+    }
+
+    const entries = (document as { rules?: unknown } | null)?.rules;
+    if (!Array.isArray(entries)) {
+      this.log.error(
+        { filePath },
+        'Notification rules file must contain a "rules" list'
+      );
+      return [];
+    }
+
+    const rules: NotificationRule[] = [];
+    entries.forEach((entry, index) => {
+      const issues = validateRule(entry);
+      if (issues.length > 0) {
+        this.log.error(
+          {
+            filePath,
+            index,
+            name: (entry as { name?: unknown })?.name,
+            issues,
+          },
+          'Ignoring invalid notification rule'
+        );
+        return;
+      }
+      rules.push(entry as NotificationRule);
+    });
+
+    this.log.info(
+      { filePath, rules: rules.map((rule) => rule.name) },
+      'Loaded notification rules'
+    );
+    return rules;
+  }
+}
+
+export const notificationRuleLoader = new NotificationRuleLoader();
@@ -0,0 +1,37 @@
+import { ChangeField } from '../flows/types';
+
+export type { ChangeField } from '../flows/types';
+
+// Every condition that is set must hold; a list means "any of". Team, state
+// and label names are compared case-insensitively
+export interface RuleConditions {
+  team?: string | string[];
+  // At least one of these fields changed in this event
+  changed?: ChangeField | ChangeField[];
+  state?: {
+    // Current state, whether or not it changed
+    is?: string | string[];
+    // The state changed, from / into one of these
+    from?: string | string[];
+    to?: string | string[];
+  };
+  labelAdded?: string | string[];
+  // Linear priority: 1 = Urgent, 2 = High, 3 = Medium, 4 = Low
+  priority?: number | number[];
+  // The issue's cycle is (true) or is not (false) running
+  cycleActive?: boolean;
+}
+
+export interface NotificationRule {
+  name: string;
+  when: RuleConditions;
+  notify: {
+    // Logical notification channel, see src/lib/notifications
+    channel: string;
+    // Templates with {{variable}} placeholders (see TEMPLATE_VARIABLES)
+    text: string;
+    title?: string;
+  };
+  // Once this rule matches, later rules for the same channel are skipped
+  stop?: boolean;
+}
@@ -0,0 +1,158 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  MockInstance,
+  vi,
+} from 'vitest';
+import { issueChangeDetector } from './change-detector';
+import { issueRelationTracker } from './relation-tracker';
+import { linearApi } from '../../../api/linear-api';
+import {
+  IssueWebhookPayload,
+  LinearEntityLookup,
+} from '../../../types/linear-webhook';
+
+const checkout = {
+  id: 'label-checkout',
+  name: 'Story: Checkout',
+  color: '#4ea7fc',
+};
+const bug = { id: 'label-bug', name: 'Bug', color: '#eb5757' };
+const urgent = { id: 'label-urgent', name: 'Urgent', color: '#f2c94c' };
+
+const emptyLookup: LinearEntityLookup = {
+  users: [],
+  cycles: [],
+  projects: [],
+  labels: [],
+  teams: [],
+  issues: [],
+};
+
+function issueUpdate(
+  data: Partial<IssueWebhookPayload['data']>,
+  updatedFrom: IssueWebhookPayload['updatedFrom']
+): IssueWebhookPayload {
+  return {
+    action: 'update',
+    type: 'Issue',
+    organizationId: 'org-1',
+    webhookId: 'webhook-1',
+    webhookTimestamp: 1736499600000,
+    data: {
+      id: 'issue-1',
+      createdAt: '2025-01-10T09:00:00.000Z',
+      updatedAt: '2025-01-10T09:00:00.000Z',
+      ...data,
+    },
+    updatedFrom,
+  };
+}
+
+describe('IssueChangeDetector label diffing', () => {
+  let getEntitiesByIds: MockInstance<typeof linearApi.getEntitiesByIds>;
+
+  beforeEach(() => {
+    getEntitiesByIds = vi
+      .spyOn(linearApi, 'getEntitiesByIds')
+      .mockResolvedValue({ ...emptyLookup, labels: [bug] });
+    vi.spyOn(linearApi, 'getIssueRelations').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('diffs the current labels against updatedFrom.labelIds', async () => {
+    const detection = await issueChangeDetector.detectChanges(
+      issueUpdate(
+        { labels: [checkout, urgent] },
+        { labelIds: [checkout.id, bug.id] }
+      )
+    );
+
+    expect(detection.hasChanges).toBe(true);
+    expect(detection.changes.labels).toEqual({
+      changed: true,
+      added: [urgent],
+      removed: [bug],
+      current: [checkout, urgent],
+      previous: [checkout, bug],
+    });
+  });
+
+  it('only looks up labels that are no longer on the issue', async () => {
+    await issueChangeDetector.detectChanges(
+      issueUpdate(
+        { labels: [checkout, urgent] },
+        { labelIds: [checkout.id, bug.id] }
+      )
+    );
+
+    expect(getEntitiesByIds).toHaveBeenCalledWith(
+      expect.objectContaining({ labelIds: [bug.id] })
+    );
+  });
+
+  it('names removed labels it cannot resolve "Unknown"', async () => {
+    getEntitiesByIds.mockResolvedValue(emptyLookup);
+
+    const detection = await issueChangeDetector.detectChanges(
+      issueUpdate({ labels: [] }, { labelIds: [bug.id] })
+    );
+
+    expect(detection.changes.labels?.removed).toEqual([
+      { id: bug.id, name: 'Unknown', color: '' },
+    ]);
+  });
+
+  it('reports no label change for a reordered label set', async () => {
+    const detection = await issueChangeDetector.detectChanges(
+      issueUpdate(
+        { labels: [urgent, checkout] },
+        { labelIds: [checkout.id, urgent.id] }
+      )
+    );
+
+    expect(detection.changes.labels).toBeUndefined();
+    expect(detection.hasChanges).toBe(false);
+  });
+
+  it('ignores labels when updatedFrom has no labelIds', async () => {
+    const detection = await issueChangeDetector.detectChanges(
+      issueUpdate({ labels: [checkout] }, { priority: 2 })
+    );
+
+    expect(detection.changes.labels).toBeUndefined();
+  });
+});
+
+describe('IssueChangeDetector relation snapshots', () => {
+  let diff: MockInstance<typeof issueRelationTracker.diff>;
+
+  beforeEach(() => {
+    vi.spyOn(linearApi, 'getEntitiesByIds').mockResolvedValue(emptyLookup);
+    diff = vi.spyOn(issueRelationTracker, 'diff').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records the relations of a processed event', async () => {
+    await issueChangeDetector.detectChanges(issueUpdate({}, { title: 'Old' }));
+
+    expect(diff).toHaveBeenCalledWith('issue-1', { record: true });
+  });
+
+  it('leaves the relation snapshot alone on a dry run', async () => {
+    await issueChangeDetector.detectChanges(issueUpdate({}, { title: 'Old' }), {
+      dryRun: true,
+    });
+
+    expect(diff).toHaveBeenCalledWith('issue-1', { record: false });
+  });
+});
@@ -1,5 +1,10 @@
-import { LinearWebhookPayload } from '../../../types/linear-webhook';
+import {
+  IssueWebhookPayload,
+  LinearEntityLookup,
+  LinearIssueRelation,
+} from '../../../types/linear-webhook';
 import { linearApi } from '../../../api/linear-api';
+import { issueRelationTracker } from './relation-tracker';
 import { createLogger } from '../../../logger';
 
 // Types for change detection
@@ -32,6 +37,19 @@ export interface Project {
   name?: string;
 }
 
+export interface Team {
+  id: string;
+  name?: string;
+}
+
+export interface ParentIssue {
+  id: string;
+  identifier?: string;
+  title?: string;
+}
+
+export type IssueRelation = LinearIssueRelation;
+
 export interface IssueChangeDetection {
   hasChanges: boolean;
   changes: {
@@ -82,6 +100,37 @@ export interface IssueChangeDetection {
       current?: number;
       previous?: number;
     };
+    dueDate?: {
+      changed: boolean;
+      current?: string;
+      previous?: string;
+    };
+    parent?: {
+      changed: boolean;
+      current?: ParentIssue;
+      previous?: ParentIssue;
+    };
+    team?: {
+      changed: boolean;
+      current?: Team;
+      previous?: Team;
+    };
+    archived?: {
+      changed: boolean;
+      current: boolean;
+      previous: boolean;
+    };
+    trashed?: {
+      changed: boolean;
+      current: boolean;
+      previous: boolean;
+    };
+    relations?: {
+      changed: boolean;
+      added: IssueRelation[];
+      removed: IssueRelation[];
+      current: IssueRelation[];
+    };
   };
   enrichedData?: {
     cycleDetails?: {
@@ -97,10 +146,14 @@ export interface IssueChangeDetection {
 export class IssueChangeDetector {
   private log = createLogger('issue-change-detector');
 
+  // With dryRun the relation snapshots are compared but left unchanged, so
+  // a dry-run replay does not move the baseline of later deliveries
   async detectChanges(
-    payload: LinearWebhookPayload
+    payload: IssueWebhookPayload,
+    { dryRun = false }: { dryRun?: boolean } = {}
   ): Promise<IssueChangeDetection> {
     const { data, updatedFrom, action } = payload;
+    const record = !dryRun;
 
     this.log.debug(
       {
@@ -160,8 +213,23 @@ export class IssueChangeDetector {
           changed: true,
           current: data.estimate,
         },
+        dueDate: {
+          changed: true,
+          current: data.dueDate,
+        },
+        parent: {
+          changed: true,
+          current: data.parentId ? { id: data.parentId } : undefined,
+        },
+        team: {
+          changed: true,
+          current: data.team,
+        },
       };
 
+      // Relations of a new issue are the baseline for later updates
+      await issueRelationTracker.diff(data.id, { record });
+
       // Fetch cycle details if exists
       if (data.cycle?.id) {
         try {
@@ -185,7 +253,11 @@ export class IssueChangeDetector {
 
     // For update actions, perform simplified comparison using webhook data
     if (action === 'update' && updatedFrom) {
-      return await this.performSimplifiedComparison(data, updatedFrom);
+      return await this.performSimplifiedComparison(data, updatedFrom, record);
+    }
+
+    if (action === 'remove' && record) {
+      await issueRelationTracker.forget(data.id);
     }
 
     this.log.debug(
@@ -201,8 +273,9 @@ export class IssueChangeDetector {
   }
 
   private async performSimplifiedComparison(
-    currentData: LinearWebhookPayload['data'],
-    updatedFrom: NonNullable<LinearWebhookPayload['updatedFrom']>
+    currentData: IssueWebhookPayload['data'],
+    updatedFrom: NonNullable<IssueWebhookPayload['updatedFrom']>,
+    record: boolean
   ): Promise<IssueChangeDetection> {
     const result: IssueChangeDetection = {
       hasChanges: false,
@@ -221,6 +294,11 @@ export class IssueChangeDetector {
       'Performing simplified comparison'
     );
 
+    const previousEntities = await this.resolvePreviousEntities(
+      currentData,
+      updatedFrom
+    );
+
     // Status changes - only detect if we have both current and previous state IDs
     if (
       updatedFrom.stateId &&
@@ -330,7 +408,9 @@ export class IssueChangeDetector {
           changed: true,
           current: currentData.assignee,
           previous: updatedFrom.assigneeId
-            ? { id: updatedFrom.assigneeId, name: 'Unknown' }
+            ? previousEntities.users.find(
+                (user) => user.id === updatedFrom.assigneeId
+              ) || { id: updatedFrom.assigneeId, name: 'Unknown' }
             : undefined,
         };
         result.hasChanges = true;
@@ -354,7 +434,7 @@ export class IssueChangeDetector {
           changed: true,
           current: currentData.cycle,
           previous: updatedFrom.cycleId
-            ? { id: updatedFrom.cycleId, name: 'Unknown' }
+            ? this.toCycle(updatedFrom.cycleId, previousEntities)
             : undefined,
         };
         result.hasChanges = true;
@@ -378,7 +458,9 @@ export class IssueChangeDetector {
           changed: true,
           current: currentData.project,
           previous: updatedFrom.projectId
-            ? { id: updatedFrom.projectId, name: 'Unknown' }
+            ? previousEntities.projects.find(
+                (project) => project.id === updatedFrom.projectId
+              ) || { id: updatedFrom.projectId, name: 'Unknown' }
             : undefined,
         };
         result.hasChanges = true;
@@ -419,12 +501,12 @@ export class IssueChangeDetector {
     // Description changes
     if (
       updatedFrom.description !== undefined &&
-      currentData.description !== updatedFrom.description
+      currentData.description !== (updatedFrom.description ?? undefined)
     ) {
       result.changes.description = {
         changed: true,
         current: currentData.description,
-        previous: updatedFrom.description,
+        previous: updatedFrom.description ?? undefined,
       };
       result.hasChanges = true;
 
@@ -440,12 +522,12 @@ export class IssueChangeDetector {
     // Estimate changes
     if (
       updatedFrom.estimate !== undefined &&
-      currentData.estimate !== updatedFrom.estimate
+      currentData.estimate !== (updatedFrom.estimate ?? undefined)
     ) {
       result.changes.estimate = {
         changed: true,
         current: currentData.estimate,
-        previous: updatedFrom.estimate,
+        previous: updatedFrom.estimate ?? undefined,
       };
       result.hasChanges = true;
 
@@ -459,54 +541,167 @@ export class IssueChangeDetector {
       );
     }
 
-    // Enhanced label change detection
-    // For updates, we assume labels changed if we have any labels and this is an update action
-    // This is a simplified approach since we can't reliably compare previous labels without API
-    const currentLabels = currentData.labels || [];
-    const hasFlaggedLabel = currentLabels.some(
-      (label) => label.name === '🔴 FLAGGED'
-    );
+    // Due date changes
+    if (
+      updatedFrom.dueDate !== undefined &&
+      currentData.dueDate !== (updatedFrom.dueDate ?? undefined)
+    ) {
+      result.changes.dueDate = {
+        changed: true,
+        current: currentData.dueDate,
+        previous: updatedFrom.dueDate ?? undefined,
+      };
+      result.hasChanges = true;
+
+      this.log.info(
+        {
+          issueId: currentData.id,
+          from: updatedFrom.dueDate || 'No due date',
+          to: currentData.dueDate || 'No due date',
+        },
+        'Due date change detected'
+      );
+    }
+
+    // Parent issue changes (moved under, out of or between parent issues)
+    if (
+      updatedFrom.parentId !== undefined &&
+      currentData.parentId !== (updatedFrom.parentId ?? undefined)
+    ) {
+      result.changes.parent = {
+        changed: true,
+        current: currentData.parentId
+          ? this.toParentIssue(currentData.parentId, previousEntities)
+          : undefined,
+        previous: updatedFrom.parentId
+          ? this.toParentIssue(updatedFrom.parentId, previousEntities)
+          : undefined,
+      };
+      result.hasChanges = true;
 
-    // For updates, assume labels potentially changed if:
-    // 1. Issue has flagged label (main case we care about)
-    // 2. OR issue has labels and no other changes detected (likely a label-only update)
-    const labelsLikelyChanged =
-      hasFlaggedLabel || (currentLabels.length > 0 && !result.hasChanges);
+      this.log.info(
+        {
+          issueId: currentData.id,
+          from: updatedFrom.parentId || 'No parent',
+          to: currentData.parentId || 'No parent',
+        },
+        'Parent issue change detected'
+      );
+    }
 
-    if (labelsLikelyChanged) {
-      result.changes.labels = {
+    // Team changes
+    if (
+      updatedFrom.teamId !== undefined &&
+      currentData.team?.id !== updatedFrom.teamId
+    ) {
+      result.changes.team = {
         changed: true,
-        added: hasFlaggedLabel
-          ? [{ id: '', name: '🔴 FLAGGED', color: '', parentId: '' }]
-          : [],
-        removed: [],
-        current: currentLabels,
-        previous: [],
+        current: currentData.team,
+        previous: previousEntities.teams.find(
+          (team) => team.id === updatedFrom.teamId
+        ) || { id: updatedFrom.teamId, name: 'Unknown' },
       };
       result.hasChanges = true;
 
-      this.log.debug(
+      this.log.info(
         {
           issueId: currentData.id,
-          hasFlaggedLabel,
-          labelsCount: currentLabels.length,
-          hasOtherChanges:
-            Object.keys(result.changes).filter(
-              (k) =>
-                k !== 'labels' &&
-                result.changes[k as keyof typeof result.changes]?.changed
-            ).length > 0,
-          labelNames: currentLabels.map((l) => l.name),
+          from: result.changes.team.previous?.name,
+          to: currentData.team?.name,
         },
-        'Label changes detected (simplified detection)'
+        'Team change detected'
       );
+    }
+
+    // Archived / trashed changes
+    if (updatedFrom.archivedAt !== undefined) {
+      const previous = !!updatedFrom.archivedAt;
+      const current = !!currentData.archivedAt;
+      if (previous !== current) {
+        result.changes.archived = { changed: true, current, previous };
+        result.hasChanges = true;
+
+        this.log.info(
+          { issueId: currentData.id, archived: current },
+          current ? 'Issue archived' : 'Issue unarchived'
+        );
+      }
+    }
+
+    if (updatedFrom.trashed !== undefined) {
+      const previous = !!updatedFrom.trashed;
+      const current = !!currentData.trashed;
+      if (previous !== current) {
+        result.changes.trashed = { changed: true, current, previous };
+        result.hasChanges = true;
+
+        this.log.info(
+          { issueId: currentData.id, trashed: current },
+          current ? 'Issue moved to trash' : 'Issue restored from trash'
+        );
+      }
+    }
+
+    // Relation (blocks / blocked by) changes - not part of updatedFrom, so
+    // the live relations are compared with the snapshot of the last event
+    const relationChanges = await issueRelationTracker.diff(currentData.id, {
+      record,
+    });
+    if (
+      relationChanges &&
+      (relationChanges.added.length > 0 || relationChanges.removed.length > 0)
+    ) {
+      result.changes.relations = { changed: true, ...relationChanges };
+      result.hasChanges = true;
+
+      this.log.info(
+        {
+          issueId: currentData.id,
+          added: relationChanges.added.map(
+            (r) => `${r.type} ${r.issue.identifier || r.issue.id}`
+          ),
+          removed: relationChanges.removed.map(
+            (r) => `${r.type} ${r.issue.identifier || r.issue.id}`
+          ),
+        },
+        'Relation change detected'
+      );
+    }
+
+    // Label changes - updatedFrom.labelIds holds the previous label set
+    if (updatedFrom.labelIds !== undefined) {
+      const labelChanges = this.diffLabels(
+        currentData,
+        updatedFrom.labelIds,
+        previousEntities
+      );
+
+      if (labelChanges.added.length > 0 || labelChanges.removed.length > 0) {
+        result.changes.labels = { changed: true, ...labelChanges };
+        result.hasChanges = true;
+
+        this.log.info(
+          {
+            issueId: currentData.id,
+            added: labelChanges.added.map((l) => l.name),
+            removed: labelChanges.removed.map((l) => l.name),
+          },
+          'Label change detected'
+        );
+      } else {
+        this.log.debug(
+          {
+            issueId: currentData.id,
+            labelsCount: labelChanges.current.length,
+          },
+          'Label IDs reported as updated but label set is unchanged'
+        );
+      }
     } else {
       this.log.debug(
         {
           issueId: currentData.id,
-          hasFlaggedLabel,
-          labelsCount: currentLabels.length,
-          hasOtherChanges: result.hasChanges,
+          labelsCount: currentData.labels?.length || 0,
         },
         'No label changes detected'
       );
@@ -543,6 +738,106 @@ export class IssueChangeDetector {
 
     return result;
   }
+
+  // updatedFrom only carries IDs; fetch the previous assignee, cycle, project,
+  // team, parent and any removed labels in a single request so messages can
+  // show names
+  private async resolvePreviousEntities(
+    currentData: IssueWebhookPayload['data'],
+    updatedFrom: NonNullable<IssueWebhookPayload['updatedFrom']>
+  ): Promise<LinearEntityLookup> {
+    const currentLabelIds = this.currentLabelIds(currentData);
+
+    return linearApi.getEntitiesByIds({
+      userIds:
+        updatedFrom.assigneeId &&
+        updatedFrom.assigneeId !== currentData.assignee?.id
+          ? [updatedFrom.assigneeId]
+          : [],
+      cycleIds:
+        updatedFrom.cycleId && updatedFrom.cycleId !== currentData.cycle?.id
+          ? [updatedFrom.cycleId]
+          : [],
+      projectIds:
+        updatedFrom.projectId &&
+        updatedFrom.projectId !== currentData.project?.id
+          ? [updatedFrom.projectId]
+          : [],
+      labelIds: (updatedFrom.labelIds || []).filter(
+        (labelId) => !currentLabelIds.has(labelId)
+      ),
+      teamIds:
+        updatedFrom.teamId && updatedFrom.teamId !== currentData.team?.id
+          ? [updatedFrom.teamId]
+          : [],
+      issueIds:
+        updatedFrom.parentId !== undefined &&
+        updatedFrom.parentId !== currentData.parentId
+          ? [updatedFrom.parentId, currentData.parentId].filter(
+              (issueId): issueId is string => !!issueId
+            )
+          : [],
+    });
+  }
+
+  private currentLabelIds(currentData: IssueWebhookPayload['data']) {
+    return new Set(
+      currentData.labelIds || (currentData.labels || []).map((l) => l.id)
+    );
+  }
+
+  private toCycle(cycleId: string, lookup: LinearEntityLookup): Cycle {
+    const cycle = lookup.cycles.find((c) => c.id === cycleId);
+    if (!cycle) {
+      return { id: cycleId, name: 'Unknown' };
+    }
+    return { id: cycle.id, name: cycle.name || `Cycle ${cycle.number}` };
+  }
+
+  private toParentIssue(
+    issueId: string,
+    lookup: LinearEntityLookup
+  ): ParentIssue {
+    return (
+      lookup.issues.find((issue) => issue.id === issueId) || { id: issueId }
+    );
+  }
+
+  // Compare the previous label IDs with the current labels; labels that were
+  // removed are no longer on the payload, so their names come from the lookup
+  private diffLabels(
+    currentData: IssueWebhookPayload['data'],
+    previousLabelIds: string[],
+    lookup: LinearEntityLookup
+  ): {
+    added: Label[];
+    removed: Label[];
+    current: Label[];
+    previous: Label[];
+  } {
+    const currentLabels = currentData.labels || [];
+    const currentLabelIds = this.currentLabelIds(currentData);
+    const previousIds = new Set(previousLabelIds);
+
+    const added = currentLabels.filter((label) => !previousIds.has(label.id));
+    const removed = previousLabelIds
+      .filter((labelId) => !currentLabelIds.has(labelId))
+      .map(
+        (labelId) =>
+          lookup.labels.find((label) => label.id === labelId) || {
+            id: labelId,
+            name: 'Unknown',
+            color: '',
+          }
+      );
+
+    const previous = [
+      ...currentLabels.filter((label) => previousIds.has(label.id)),
+      ...removed,
+    ];
+
+    return { added, removed, current: currentLabels, previous };
+  }
 }
 
 export const issueChangeDetector = new IssueChangeDetector();
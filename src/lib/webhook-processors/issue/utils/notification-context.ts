@@ -0,0 +1,65 @@
+import { IssueWebhookPayload } from '../../../types/linear-webhook';
+import {
+  NotificationIssueContext,
+  NotificationLink,
+} from '../../../notifications/types';
+import { linearApi } from '../../../api/linear-api';
+import { sliteApi } from '../../../api/slite-api';
+import { IssueChangeDetection } from './change-detector';
+import { findStoryLabel } from './story-label';
+
+// Linear priorities; 0 means no priority
+export const PRIORITY_LABELS: Record<number, string> = {
+  1: 'Urgent',
+  2: 'High',
+  3: 'Medium',
+  4: 'Low',
+};
+
+// Issue details and buttons for issue notifications. The assignee avatar
+// comes from Linear (webhooks only carry the name) and the release doc link
+// from Slite; either is left out when it cannot be fetched
+export async function buildIssueNotificationContext(
+  payload: IssueWebhookPayload,
+  changeDetection: IssueChangeDetection
+): Promise<{ issue: NotificationIssueContext; actions: NotificationLink[] }> {
+  const { data } = payload;
+  const url = data.url || `https://linear.app/issue/${data.id}`;
+  const storyLabel = findStoryLabel(data.labels);
+
+  const [lookup, releaseDocUrl] = await Promise.all([
+    data.assignee
+      ? linearApi.getEntitiesByIds({ userIds: [data.assignee.id] })
+      : null,
+    storyLabel ? sliteApi.getDocumentUrl(storyLabel.name) : null,
+  ]);
+
+  const issue: NotificationIssueContext = {
+    id: data.id,
+    identifier: data.identifier?.toString() || 'N/A',
+    title: data.title || 'Untitled Issue',
+    url,
+    ...(data.assignee && {
+      assignee: {
+        name: data.assignee.name,
+        avatarUrl: lookup?.users[0]?.avatarUrl,
+      },
+    }),
+    ...(data.priority && { priority: PRIORITY_LABELS[data.priority] }),
+    ...(data.estimate !== undefined && { estimate: data.estimate }),
+    previousState: changeDetection.changes.status?.previous?.name,
+    currentState: data.state?.name,
+    labels: data.labels?.map((label) => label.name),
+    cycle: changeDetection.enrichedData?.cycleDetails?.name ?? data.cycle?.name,
+  };
+
+  const actions: NotificationLink[] = [{ label: 'Open in Linear', url }];
+  if (storyLabel && releaseDocUrl) {
+    actions.push({
+      label: `Release doc: ${storyLabel.name}`,
+      url: releaseDocUrl,
+    });
+  }
+
+  return { issue, actions };
+}
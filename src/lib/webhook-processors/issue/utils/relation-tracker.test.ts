@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  IssueRelationSnapshot,
+  IssueRelationTracker,
+} from './relation-tracker';
+import { linearApi } from '../../../api/linear-api';
+import { MemoryStorage } from '../../../storage/memory-storage';
+import { LinearIssueRelation } from '../../../types/linear-webhook';
+
+const blocks: LinearIssueRelation = {
+  type: 'blocks',
+  issue: { id: 'issue-2', identifier: 'PRD-2' },
+};
+const blockedBy: LinearIssueRelation = {
+  type: 'blocked_by',
+  issue: { id: 'issue-3', identifier: 'PRD-3' },
+};
+
+function mockRelations(...results: Array<LinearIssueRelation[] | null>) {
+  const spy = vi.spyOn(linearApi, 'getIssueRelations');
+  for (const result of results) {
+    spy.mockResolvedValueOnce(result);
+  }
+  return spy;
+}
+
+describe('IssueRelationTracker', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('records a baseline on the first event of an issue', async () => {
+    const snapshots = new MemoryStorage<IssueRelationSnapshot>();
+    const tracker = new IssueRelationTracker(snapshots);
+    mockRelations([blocks]);
+
+    expect(await tracker.diff('issue-1')).toBeNull();
+    expect((await snapshots.get('issue-1'))?.relations).toEqual([blocks]);
+  });
+
+  it('diffs live relations against the last snapshot', async () => {
+    const tracker = new IssueRelationTracker(new MemoryStorage());
+    mockRelations([blocks], [blockedBy], [blockedBy]);
+
+    await tracker.diff('issue-1');
+    const changed = await tracker.diff('issue-1');
+    const unchanged = await tracker.diff('issue-1');
+
+    expect(changed).toEqual({
+      added: [blockedBy],
+      removed: [blocks],
+      current: [blockedBy],
+    });
+    expect(unchanged).toEqual({
+      added: [],
+      removed: [],
+      current: [blockedBy],
+    });
+  });
+
+  it('treats the same issue with another relation type as a change', async () => {
+    const tracker = new IssueRelationTracker(new MemoryStorage());
+    const blockedByTheSameIssue: LinearIssueRelation = {
+      ...blocks,
+      type: 'blocked_by',
+    };
+    mockRelations([blocks], [blockedByTheSameIssue]);
+
+    await tracker.diff('issue-1');
+    const diff = await tracker.diff('issue-1');
+
+    expect(diff?.added).toEqual([blockedByTheSameIssue]);
+    expect(diff?.removed).toEqual([blocks]);
+  });
+
+  it('keeps the snapshot when the relations cannot be fetched', async () => {
+    const snapshots = new MemoryStorage<IssueRelationSnapshot>();
+    const tracker = new IssueRelationTracker(snapshots);
+    mockRelations([blocks], null, []);
+
+    await tracker.diff('issue-1');
+    expect(await tracker.diff('issue-1')).toBeNull();
+    const diff = await tracker.diff('issue-1');
+
+    expect(diff?.removed).toEqual([blocks]);
+  });
+
+  it('starts over after the issue is forgotten', async () => {
+    const tracker = new IssueRelationTracker(new MemoryStorage());
+    mockRelations([blocks], []);
+
+    await tracker.diff('issue-1');
+    await tracker.forget('issue-1');
+
+    expect(await tracker.diff('issue-1')).toBeNull();
+  });
+
+  it('leaves the snapshot unchanged when not recording', async () => {
+    const snapshots = new MemoryStorage<IssueRelationSnapshot>();
+    const tracker = new IssueRelationTracker(snapshots);
+    mockRelations([blocks], [blockedBy], [blockedBy]);
+
+    await tracker.diff('issue-1');
+    const dryRun = await tracker.diff('issue-1', { record: false });
+    const diff = await tracker.diff('issue-1');
+
+    expect(dryRun?.added).toEqual([blockedBy]);
+    expect(diff?.added).toEqual([blockedBy]);
+  });
+
+  it('does not record a baseline when not recording', async () => {
+    const snapshots = new MemoryStorage<IssueRelationSnapshot>();
+    const tracker = new IssueRelationTracker(snapshots);
+    mockRelations([blocks]);
+
+    expect(await tracker.diff('issue-1', { record: false })).toBeNull();
+    expect(await snapshots.get('issue-1')).toBeNull();
+  });
+
+  it('prunes snapshots older than the retention window', async () => {
+    const snapshots = new MemoryStorage<IssueRelationSnapshot>();
+    const tracker = new IssueRelationTracker(snapshots, 60 * 60 * 1000);
+    await snapshots.set('issue-1', {
+      issueId: 'issue-1',
+      relations: [blocks],
+      recordedAt: '2025-01-10T07:00:00.000Z',
+    });
+    await snapshots.set('issue-2', {
+      issueId: 'issue-2',
+      relations: [],
+      recordedAt: '2025-01-10T08:30:00.000Z',
+    });
+
+    const pruned = await tracker.prune(new Date('2025-01-10T09:00:00.000Z'));
+
+    expect(pruned).toBe(1);
+    expect(await snapshots.get('issue-1')).toBeNull();
+    expect(await snapshots.get('issue-2')).not.toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { LinearIssueRelation } from '../../../types/linear-webhook';
+import { linearApi } from '../../../api/linear-api';
+import { createDurableStorage, KeyValueStorage } from '../../../storage';
+import { createLogger } from '../../../logger';
+
+// Snapshots of issues without an event for this long are dropped; the next
+// event of such an issue records a new baseline
+const DEFAULT_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+export interface IssueRelationSnapshot {
+  issueId: string;
+  relations: LinearIssueRelation[];
+  recordedAt: string;
+}
+
+export interface IssueRelationDiff {
+  added: LinearIssueRelation[];
+  removed: LinearIssueRelation[];
+  current: LinearIssueRelation[];
+}
+
+function relationKey(relation: LinearIssueRelation) {
+  return `${relation.type}:${relation.issue.id}`;
+}
+
+// Linear webhooks do not carry issue relations, so we keep the blocking
+// relations seen at the last event of each issue (refreshed on every create
+// and update) and diff the live ones against them
+export class IssueRelationTracker {
+  private log = createLogger('issue-relation-tracker');
+
+  constructor(
+    private snapshots: KeyValueStorage<IssueRelationSnapshot>,
+    private retentionMs = DEFAULT_RETENTION_MS
+  ) {}
+
+  // Stores the live relations as the new snapshot, unless record is false
+  // (dry runs). Returns null when nothing can be compared: the fetch failed,
+  // or this is the first event we see for the issue (the snapshot becomes
+  // the baseline)
+  async diff(
+    issueId: string,
+    { record = true }: { record?: boolean } = {}
+  ): Promise<IssueRelationDiff | null> {
+    const current = await linearApi.getIssueRelations(issueId);
+    if (!current) {
+      return null;
+    }
+
+    const snapshot = await this.snapshots.get(issueId);
+    if (record) {
+      await this.snapshots.set(issueId, {
+        issueId,
+        relations: current,
+        recordedAt: new Date().toISOString(),
+      });
+    }
+
+    if (!snapshot) {
+      this.log.debug(
+        { issueId, relationsCount: current.length },
+        'Recorded relation baseline for issue'
+      );
+      return null;
+    }
+
+    const previousKeys = new Set(snapshot.relations.map(relationKey));
+    const currentKeys = new Set(current.map(relationKey));
+
+    return {
+      added: current.filter((r) => !previousKeys.has(relationKey(r))),
+      removed: snapshot.relations.filter(
+        (r) => !currentKeys.has(relationKey(r))
+      ),
+      current,
+    };
+  }
+
+  async forget(issueId: string) {
+    await this.snapshots.delete(issueId);
+  }
+
+  async prune(now = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - this.retentionMs).toISOString();
+    const expired = (await this.snapshots.list()).filter(
+      (snapshot) => snapshot.recordedAt < cutoff
+    );
+
+    for (const snapshot of expired) {
+      await this.snapshots.delete(snapshot.issueId);
+    }
+
+    if (expired.length > 0) {
+      this.log.info(
+        { pruned: expired.length, cutoff },
+        'Pruned expired relation snapshots'
+      );
+    }
+    return expired.length;
+  }
+}
+
+export const issueRelationTracker = new IssueRelationTracker(
+  createDurableStorage<IssueRelationSnapshot>('issue-relations')
+);
@@ -0,0 +1,9 @@
+import { LinearWebhookLabel } from '../../../types/linear-webhook';
+
+// Parent of the "Story: ..." labels; each story label has one release
+// document in Slite, titled with the label name
+export const STORY_LABEL_PARENT_ID = '037a6e45-7430-42bc-b6e9-c3a083514ead';
+
+export function findStoryLabel(labels: LinearWebhookLabel[] = []) {
+  return labels.find((label) => label.parentId === STORY_LABEL_PARENT_ID);
+}
@@ -1,7 +1,7 @@
-import { LinearWebhookPayload } from '../types/linear-webhook';
+import { ProjectWebhookPayload } from '../types/linear-webhook';
 import { createLogger } from '../logger';
 
-export function processProjectWebhook(payload: LinearWebhookPayload) {
+export function processProjectWebhook(payload: ProjectWebhookPayload) {
   const { action, data } = payload;
   const log = createLogger('project-processor', {
     projectId: data.id,
@@ -11,7 +11,7 @@ export function processProjectWebhook(payload: LinearWebhookPayload) {
 
   log.info(
     {
-      projectTitle: data.title,
+      projectName: data.name,
       projectId: data.id,
     },
     `Project ${action}: ${data.id}`
@@ -0,0 +1,29 @@
+import { ProjectUpdateWebhookPayload } from '../types/linear-webhook';
+import { createLogger } from '../logger';
+
+export function processProjectUpdateWebhook(
+  payload: ProjectUpdateWebhookPayload
+) {
+  const { action, data } = payload;
+  const log = createLogger('project-update-processor', {
+    projectUpdateId: data.id,
+    action,
+    organizationId: payload.organizationId,
+  });
+
+  log.info(
+    {
+      projectUpdateId: data.id,
+      projectId: data.projectId,
+      health: data.health,
+    },
+    `Project update ${action} for project: ${data.projectId}`
+  );
+
+  return {
+    success: true,
+    action,
+    projectUpdateId: data.id,
+    projectId: data.projectId,
+  };
+}
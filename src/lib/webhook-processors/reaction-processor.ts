@@ -0,0 +1,24 @@
+import { ReactionWebhookPayload } from '../types/linear-webhook';
+import { createLogger } from '../logger';
+
+export function processReactionWebhook(payload: ReactionWebhookPayload) {
+  const { action, data } = payload;
+  const log = createLogger('reaction-processor', {
+    reactionId: data.id,
+    action,
+    organizationId: payload.organizationId,
+  });
+
+  log.info(
+    {
+      reactionId: data.id,
+      emoji: data.emoji,
+      commentId: data.commentId,
+      issueId: data.issueId,
+      projectUpdateId: data.projectUpdateId,
+    },
+    `Reaction ${action}: ${data.emoji}`
+  );
+
+  return { success: true, action, reactionId: data.id };
+}
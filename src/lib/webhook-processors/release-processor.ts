@@ -25,6 +25,18 @@ export async function processStatusReleaseChange(
     // Fetch all tickets matching the label ID (same label as the changed ticket)
     const allTickets = await linearApi.getIssuesByLabel(labelId);
 
+    // A failed fetch must not be written out as a release with no tickets
+    if (!allTickets) {
+      log.error(
+        { labelName, labelId },
+        `Failed to fetch tickets for "${labelName}", leaving release document untouched`
+      );
+      return {
+        success: false,
+        error: 'Failed to fetch tickets from Linear',
+      };
+    }
+
     log.info(
       { ticketCount: allTickets.length },
       `Found ${allTickets.length} tickets with label "${labelName}"`